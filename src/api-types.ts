@@ -0,0 +1,449 @@
+// Typed models of the SpiceDB v1 API messages, in the JSON form the HTTP
+// gateway uses (and the gRPC transport converts to). They follow the
+// authzed.api.v1 definitions in SpiceDB's OpenAPI spec. Responses are
+// validated against the zod schemas below, so a response of an unexpected
+// shape fails with an error naming the field instead of yielding empty results.
+import { z } from 'zod';
+
+// Shared messages
+
+export const zedTokenSchema = z.object({ token: z.string() });
+export type ZedToken = z.infer<typeof zedTokenSchema>;
+
+export const cursorSchema = z.object({ token: z.string() });
+export type Cursor = z.infer<typeof cursorSchema>;
+
+export const objectReferenceSchema = z.object({
+  objectType: z.string(),
+  objectId: z.string(),
+});
+export type ObjectReference = z.infer<typeof objectReferenceSchema>;
+
+export const subjectReferenceSchema = z.object({
+  object: objectReferenceSchema,
+  optionalRelation: z.string().optional(),
+});
+export type SubjectReference = z.infer<typeof subjectReferenceSchema>;
+
+// Caveat context is a google.protobuf.Struct, which is plain JSON
+export const contextSchema = z.record(z.any());
+export type Context = z.infer<typeof contextSchema>;
+
+export const contextualizedCaveatSchema = z.object({
+  caveatName: z.string(),
+  context: contextSchema.optional(),
+});
+export type ContextualizedCaveat = z.infer<typeof contextualizedCaveatSchema>;
+
+export const relationshipSchema = z.object({
+  resource: objectReferenceSchema,
+  relation: z.string(),
+  subject: subjectReferenceSchema,
+  optionalCaveat: contextualizedCaveatSchema.optional(),
+  // RFC 3339 timestamp
+  optionalExpiresAt: z.string().optional(),
+});
+export type Relationship = z.infer<typeof relationshipSchema>;
+
+export const partialCaveatInfoSchema = z.object({
+  missingRequiredContext: z.array(z.string()).default([]),
+});
+export type PartialCaveatInfo = z.infer<typeof partialCaveatInfoSchema>;
+
+export type Consistency =
+  | { minimizeLatency: true }
+  | { atLeastAsFresh: ZedToken }
+  | { atExactSnapshot: ZedToken }
+  | { fullyConsistent: true };
+
+export interface SubjectFilter {
+  subjectType: string;
+  optionalSubjectId?: string;
+  optionalRelation?: { relation: string };
+}
+
+export interface RelationshipFilter {
+  resourceType?: string;
+  optionalResourceId?: string;
+  optionalRelation?: string;
+  optionalSubjectFilter?: SubjectFilter;
+}
+
+export type UpdateOperation =
+  'OPERATION_CREATE' | 'OPERATION_TOUCH' | 'OPERATION_DELETE';
+
+export interface RelationshipUpdate {
+  operation: UpdateOperation;
+  relationship: Relationship;
+}
+
+export interface Precondition {
+  operation: 'OPERATION_MUST_MATCH' | 'OPERATION_MUST_NOT_MATCH';
+  filter: RelationshipFilter;
+}
+
+// Enums are sent by name. Proto3 JSON leaves out fields holding their default
+// value, so an absent enum means its UNSPECIFIED value.
+
+export const permissionshipSchema = z.enum([
+  'PERMISSIONSHIP_UNSPECIFIED',
+  'PERMISSIONSHIP_NO_PERMISSION',
+  'PERMISSIONSHIP_HAS_PERMISSION',
+  'PERMISSIONSHIP_CONDITIONAL_PERMISSION',
+]);
+export type Permissionship = z.infer<typeof permissionshipSchema>;
+
+export const lookupPermissionshipSchema = z.enum([
+  'LOOKUP_PERMISSIONSHIP_UNSPECIFIED',
+  'LOOKUP_PERMISSIONSHIP_HAS_PERMISSION',
+  'LOOKUP_PERMISSIONSHIP_CONDITIONAL_PERMISSION',
+]);
+export type LookupPermissionship = z.infer<typeof lookupPermissionshipSchema>;
+
+// Schema
+
+export type ReadSchemaRequest = Record<string, never>;
+
+export const readSchemaResponseSchema = z.object({
+  schemaText: z.string().default(''),
+  readAt: zedTokenSchema.optional(),
+});
+export type ReadSchemaResponse = z.infer<typeof readSchemaResponseSchema>;
+
+export interface WriteSchemaRequest {
+  schema: string;
+}
+
+export const writeSchemaResponseSchema = z.object({
+  writtenAt: zedTokenSchema.optional(),
+});
+export type WriteSchemaResponse = z.infer<typeof writeSchemaResponseSchema>;
+
+// Relationships
+
+export interface ReadRelationshipsRequest {
+  consistency?: Consistency;
+  relationshipFilter: RelationshipFilter;
+  optionalLimit?: number;
+  optionalCursor?: Cursor;
+}
+
+export const readRelationshipsResponseSchema = z.object({
+  readAt: zedTokenSchema.optional(),
+  relationship: relationshipSchema,
+  afterResultCursor: cursorSchema.optional(),
+});
+export type ReadRelationshipsResponse = z.infer<
+  typeof readRelationshipsResponseSchema
+>;
+
+export interface WriteRelationshipsRequest {
+  updates: RelationshipUpdate[];
+  optionalPreconditions?: Precondition[];
+}
+
+export const writeRelationshipsResponseSchema = z.object({
+  writtenAt: zedTokenSchema.optional(),
+});
+export type WriteRelationshipsResponse = z.infer<
+  typeof writeRelationshipsResponseSchema
+>;
+
+export interface DeleteRelationshipsRequest {
+  relationshipFilter: RelationshipFilter;
+  optionalPreconditions?: Precondition[];
+  optionalLimit?: number;
+  optionalAllowPartialDeletions?: boolean;
+}
+
+export const deleteRelationshipsResponseSchema = z.object({
+  deletedAt: zedTokenSchema.optional(),
+  deletionProgress: z
+    .enum([
+      'DELETION_PROGRESS_UNSPECIFIED',
+      'DELETION_PROGRESS_COMPLETE',
+      'DELETION_PROGRESS_PARTIAL',
+    ])
+    .optional(),
+  // int64, which proto3 JSON sends as a string
+  relationshipsDeletedCount: z.coerce.number().optional(),
+});
+export type DeleteRelationshipsResponse = z.infer<
+  typeof deleteRelationshipsResponseSchema
+>;
+
+// Permissions
+
+export interface CheckPermissionRequest {
+  consistency?: Consistency;
+  resource: ObjectReference;
+  permission: string;
+  subject: SubjectReference;
+  context?: Context;
+  withTracing?: boolean;
+}
+
+export interface CheckDebugTrace {
+  resource: ObjectReference;
+  permission: string;
+  permissionType?:
+    | 'PERMISSION_TYPE_UNSPECIFIED'
+    | 'PERMISSION_TYPE_RELATION'
+    | 'PERMISSION_TYPE_PERMISSION';
+  subject: SubjectReference;
+  result?: Permissionship;
+  caveatEvaluationInfo?: Record<string, any>;
+  // google.protobuf.Duration, for example "0.000123s"
+  duration?: string;
+  wasCachedResult?: boolean;
+  subProblems?: { traces: CheckDebugTrace[] };
+}
+
+// Traces nest, so the type is declared by hand for the recursive schema
+export const checkDebugTraceSchema: z.ZodType<
+  CheckDebugTrace,
+  z.ZodTypeDef,
+  unknown
+> = z.lazy(() =>
+  z.object({
+    resource: objectReferenceSchema,
+    permission: z.string(),
+    permissionType: z
+      .enum([
+        'PERMISSION_TYPE_UNSPECIFIED',
+        'PERMISSION_TYPE_RELATION',
+        'PERMISSION_TYPE_PERMISSION',
+      ])
+      .optional(),
+    subject: subjectReferenceSchema,
+    result: permissionshipSchema.optional(),
+    caveatEvaluationInfo: z.record(z.any()).optional(),
+    duration: z.string().optional(),
+    wasCachedResult: z.boolean().optional(),
+    subProblems: z
+      .object({ traces: z.array(checkDebugTraceSchema).default([]) })
+      .optional(),
+  })
+);
+
+export const debugInformationSchema = z.object({
+  check: checkDebugTraceSchema.optional(),
+  schemaUsed: z.string().optional(),
+});
+export type DebugInformation = z.infer<typeof debugInformationSchema>;
+
+export const checkPermissionResponseSchema = z.object({
+  checkedAt: zedTokenSchema.optional(),
+  permissionship: permissionshipSchema.default('PERMISSIONSHIP_UNSPECIFIED'),
+  partialCaveatInfo: partialCaveatInfoSchema.optional(),
+  debugTrace: debugInformationSchema.optional(),
+});
+export type CheckPermissionResponse = z.infer<
+  typeof checkPermissionResponseSchema
+>;
+
+export interface CheckBulkPermissionsRequestItem {
+  resource: ObjectReference;
+  permission: string;
+  subject: SubjectReference;
+  context?: Context;
+}
+
+export interface CheckBulkPermissionsRequest {
+  consistency?: Consistency;
+  items: CheckBulkPermissionsRequestItem[];
+}
+
+// google.rpc.Status, as returned for a failed item
+export const statusSchema = z.object({
+  code: z.number().default(0),
+  message: z.string().default(''),
+  details: z.array(z.any()).optional(),
+});
+
+export const checkBulkPermissionsResponseSchema = z.object({
+  checkedAt: zedTokenSchema.optional(),
+  pairs: z
+    .array(
+      z.object({
+        request: z.any(),
+        item: z
+          .object({
+            permissionship: permissionshipSchema.default(
+              'PERMISSIONSHIP_UNSPECIFIED'
+            ),
+            partialCaveatInfo: partialCaveatInfoSchema.optional(),
+          })
+          .optional(),
+        error: statusSchema.optional(),
+      })
+    )
+    .default([]),
+});
+export type CheckBulkPermissionsResponse = z.infer<
+  typeof checkBulkPermissionsResponseSchema
+>;
+
+export interface LookupResourcesRequest {
+  consistency?: Consistency;
+  resourceObjectType: string;
+  permission: string;
+  subject: SubjectReference;
+  context?: Context;
+  optionalLimit?: number;
+  optionalCursor?: Cursor;
+}
+
+export const lookupResourcesResponseSchema = z.object({
+  lookedUpAt: zedTokenSchema.optional(),
+  resourceObjectId: z.string(),
+  permissionship: lookupPermissionshipSchema.default(
+    'LOOKUP_PERMISSIONSHIP_UNSPECIFIED'
+  ),
+  partialCaveatInfo: partialCaveatInfoSchema.optional(),
+  afterResultCursor: cursorSchema.optional(),
+});
+export type LookupResourcesResponse = z.infer<
+  typeof lookupResourcesResponseSchema
+>;
+
+export interface LookupSubjectsRequest {
+  consistency?: Consistency;
+  resource: ObjectReference;
+  permission: string;
+  subjectObjectType: string;
+  optionalSubjectRelation?: string;
+  context?: Context;
+}
+
+export const resolvedSubjectSchema = z.object({
+  subjectObjectId: z.string(),
+  permissionship: lookupPermissionshipSchema.default(
+    'LOOKUP_PERMISSIONSHIP_UNSPECIFIED'
+  ),
+  partialCaveatInfo: partialCaveatInfoSchema.optional(),
+});
+export type ResolvedSubject = z.infer<typeof resolvedSubjectSchema>;
+
+// The subject is reported in `subject`; the top-level subjectObjectId and
+// excludedSubjectIds fields are deprecated and not read
+export const lookupSubjectsResponseSchema = z.object({
+  lookedUpAt: zedTokenSchema.optional(),
+  subject: resolvedSubjectSchema,
+  // Subjects excluded from a wildcard (*) subject
+  excludedSubjects: z.array(resolvedSubjectSchema).default([]),
+  afterResultCursor: cursorSchema.optional(),
+});
+export type LookupSubjectsResponse = z.infer<
+  typeof lookupSubjectsResponseSchema
+>;
+
+export interface ExpandPermissionTreeRequest {
+  consistency?: Consistency;
+  resource: ObjectReference;
+  permission: string;
+}
+
+export const algebraicOperationSchema = z.enum([
+  'OPERATION_UNSPECIFIED',
+  'OPERATION_UNION',
+  'OPERATION_INTERSECTION',
+  'OPERATION_EXCLUSION',
+]);
+export type AlgebraicOperation = z.infer<typeof algebraicOperationSchema>;
+
+// A node of an expanded permission: either an operation on child trees, or a
+// leaf listing the subjects of a relation, which may themselves be usersets
+export interface PermissionRelationshipTree {
+  expandedObject?: ObjectReference;
+  expandedRelation?: string;
+  intermediate?: {
+    operation: AlgebraicOperation;
+    children: PermissionRelationshipTree[];
+  };
+  leaf?: { subjects: SubjectReference[] };
+}
+
+// Trees nest, so the type is declared by hand for the recursive schema
+export const permissionRelationshipTreeSchema: z.ZodType<
+  PermissionRelationshipTree,
+  z.ZodTypeDef,
+  unknown
+> = z.lazy(() =>
+  z.object({
+    expandedObject: objectReferenceSchema.optional(),
+    expandedRelation: z.string().optional(),
+    intermediate: z
+      .object({
+        operation: algebraicOperationSchema.default('OPERATION_UNSPECIFIED'),
+        children: z.array(permissionRelationshipTreeSchema).default([]),
+      })
+      .optional(),
+    leaf: z
+      .object({ subjects: z.array(subjectReferenceSchema).default([]) })
+      .optional(),
+  })
+);
+
+export const expandPermissionTreeResponseSchema = z.object({
+  expandedAt: zedTokenSchema.optional(),
+  treeRoot: permissionRelationshipTreeSchema.optional(),
+});
+export type ExpandPermissionTreeResponse = z.infer<
+  typeof expandPermissionTreeResponseSchema
+>;
+
+// Watch
+
+export interface WatchRequest {
+  optionalObjectTypes?: string[];
+  optionalStartCursor?: ZedToken;
+  optionalRelationshipFilters?: RelationshipFilter[];
+}
+
+export const watchResponseSchema = z.object({
+  updates: z
+    .array(
+      z.object({
+        operation: z.enum([
+          'OPERATION_UNSPECIFIED',
+          'OPERATION_CREATE',
+          'OPERATION_TOUCH',
+          'OPERATION_DELETE',
+        ]),
+        relationship: relationshipSchema,
+      })
+    )
+    .default([]),
+  changesThrough: zedTokenSchema.optional(),
+});
+export type WatchResponse = z.infer<typeof watchResponseSchema>;
+export type WatchUpdate = WatchResponse['updates'][number];
+
+// Error raised when SpiceDB answers with a message that doesn't match its model
+export class ResponseValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ResponseValidationError';
+  }
+}
+
+// Validate a response against its model, naming the call and the offending
+// fields when it doesn't match
+export function parseResponse<T extends z.ZodTypeAny>(
+  schema: T,
+  call: string,
+  response: unknown
+): z.infer<T> {
+  const parsed = schema.safeParse(response ?? {});
+  if (parsed.success) {
+    return parsed.data;
+  }
+
+  const issues = parsed.error.issues
+    .map((issue) => `${issue.path.join('.') || '(response)'}: ${issue.message}`)
+    .join('; ');
+  throw new ResponseValidationError(
+    `Unexpected ${call} response from SpiceDB: ${issues}`
+  );
+}
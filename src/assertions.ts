@@ -0,0 +1,427 @@
+// Run the assertions and expected relations of a validation file against a
+// live instance, as zed validate runs them against the file's own data
+import {
+  CheckBulkPermissionsRequestItem,
+  CheckDebugTrace,
+  Consistency,
+  Context,
+  Permissionship,
+} from './api-types.js';
+import { SpiceDBClient, collectResults } from './spicedb-client.js';
+import { buildObjectReference, buildSubjectReference } from './builders.js';
+import { SchemaParseError, parseSchema } from './schema-parser.js';
+import { ValidationAssertions } from './validation-file.js';
+import { SpiceDBError, describeError } from './errors.js';
+
+export type AssertionKind = keyof ValidationAssertions;
+
+const expectedPermissionship: Record<AssertionKind, Permissionship> = {
+  assertTrue: 'PERMISSIONSHIP_HAS_PERMISSION',
+  assertCaveated: 'PERMISSIONSHIP_CONDITIONAL_PERMISSION',
+  assertFalse: 'PERMISSIONSHIP_NO_PERMISSION',
+};
+
+export interface AssertionInput {
+  assertions: ValidationAssertions;
+  validation: Record<string, string[]>;
+}
+
+export interface AssertionOptions {
+  consistency: Consistency;
+  // Most subjects read per subject type for an expected relations block
+  maxSubjects: number;
+  // Most failures a debug trace is fetched for
+  maxTraces: number;
+  signal?: AbortSignal;
+}
+
+export interface AssertionResult {
+  kind: AssertionKind;
+  assertion: string;
+  expected: Permissionship;
+  passed: boolean;
+  actual?: Permissionship;
+  // Why the assertion couldn't be checked
+  error?: string;
+  trace?: CheckDebugTrace;
+}
+
+export interface ExpectedRelationsResult {
+  // The block's "resourceType:resourceId#permission"
+  key: string;
+  passed: boolean;
+  // Subjects in zed's expected relations syntax, without relationship paths
+  expected: string[];
+  missing: string[];
+  unexpected: string[];
+  error?: string;
+  // Debug traces of the checks for missing and unexpected subjects
+  traces: { subject: string; trace: CheckDebugTrace }[];
+}
+
+export interface AssertionReport {
+  assertions: AssertionResult[];
+  validation: ExpectedRelationsResult[];
+  // ZedToken of the revision everything was evaluated at, when SpiceDB reports it
+  checkedAt?: string;
+}
+
+interface ParsedAssertion {
+  resourceType: string;
+  resourceId: string;
+  permission: string;
+  subjectType: string;
+  subjectId: string;
+  subjectRelation?: string;
+  context?: Context;
+}
+
+// A subject reference in an expected relation, with whether it has a caveat
+interface ExpectedSubject {
+  type: string;
+  id: string;
+  relation?: string;
+  conditional: boolean;
+  excluded: ExpectedSubject[];
+}
+
+// Parse an assertion: a relationship string naming a permission, optionally
+// followed by `with {...context}`
+function parseAssertion(
+  client: SpiceDBClient,
+  assertion: string
+): ParsedAssertion {
+  const withContext = assertion.match(/^(.*?)\s+with\s+(\{.*\})\s*$/s);
+  const tuple = (withContext ? withContext[1] : assertion).trim();
+
+  const parsed = client.parseRelationshipString(tuple);
+  if (parsed.caveat || parsed.expiresAt) {
+    throw new Error(
+      'Assertions name a permission check; pass caveat context with `with {...}`'
+    );
+  }
+
+  let context: Context | undefined;
+  if (withContext) {
+    try {
+      context = JSON.parse(withContext[2]);
+    } catch (error) {
+      throw new Error(`Invalid assertion context: ${error}`);
+    }
+  }
+
+  return {
+    resourceType: parsed.resourceType,
+    resourceId: parsed.resourceId,
+    permission: parsed.relation,
+    subjectType: parsed.subjectType,
+    subjectId: parsed.subjectId,
+    subjectRelation: parsed.optionalSubjectRelation,
+    context,
+  };
+}
+
+// Parse a subject such as user:alice, group:eng#member, user:carol[ip_allowlist]
+// or user:* - {user:bob, user:carol[ip_allowlist]}
+function parseSubject(text: string): ExpectedSubject {
+  const exclusion = text.match(/^(.*?)\s+-\s+\{(.*)\}$/s);
+  const base = (exclusion ? exclusion[1] : text).trim();
+
+  const match = base.match(
+    /^([^\s:#[\]]+):([^\s:#[\]]+)(?:#([^\s#[\]]+))?((?:\[[^\]]*\])*)$/
+  );
+  if (!match) {
+    throw new Error(`Invalid subject: ${text}`);
+  }
+
+  // Suffixes name a caveat, or the expiration, which doesn't make it conditional
+  const suffixes = match[4].match(/\[[^\]]*\]/g) ?? [];
+  return {
+    type: match[1],
+    id: match[2],
+    relation: match[3],
+    conditional: suffixes.some((suffix) => !/^\[expiration\b/.test(suffix)),
+    excluded: exclusion
+      ? exclusion[2]
+          .split(',')
+          .filter((item) => item.trim())
+          .map((item) => parseSubject(item.trim()))
+      : [],
+  };
+}
+
+// Parse an expected relation, "[subject] is <resource#relation>/...", keeping
+// the subject; the relationship paths after "is" aren't compared
+function parseExpectedRelation(entry: string): ExpectedSubject {
+  const text = entry.trim();
+  let depth = 0;
+  for (let i = 0; text.startsWith('[') && i < text.length; i++) {
+    if (text[i] === '[') {
+      depth++;
+    } else if (text[i] === ']' && --depth === 0) {
+      return parseSubject(text.slice(1, i));
+    }
+  }
+  throw new Error(`Invalid expected relation: ${entry}`);
+}
+
+// Render a subject for comparison; two subjects match when they render the same
+function subjectToString(subject: ExpectedSubject): string {
+  const excluded = subject.excluded.map(subjectToString).sort();
+  return `${subject.type}:${subject.id}${
+    subject.relation ? `#${subject.relation}` : ''
+  }${subject.conditional ? ' (conditional)' : ''}${
+    excluded.length > 0 ? ` - {${excluded.join(', ')}}` : ''
+  }`;
+}
+
+// The subject types to look up for an expected relations block: every
+// subject type the schema allows on a relation, and any the block names
+function subjectTypesToLookUp(
+  schemaText: string,
+  expected: ExpectedSubject[]
+): { type: string; relation?: string }[] {
+  const types = new Map<string, { type: string; relation?: string }>();
+  const add = (type: string, relation?: string) =>
+    types.set(`${type}#${relation ?? ''}`, { type, relation });
+
+  try {
+    for (const definition of parseSchema(schemaText).definitions) {
+      for (const relation of definition.relations) {
+        for (const subjectType of relation.subjectTypes) {
+          add(subjectType.type, subjectType.relation);
+        }
+      }
+    }
+  } catch (error) {
+    // Fall back to the subject types the block names
+    if (!(error instanceof SchemaParseError)) {
+      throw error;
+    }
+  }
+
+  for (const subject of expected) {
+    add(subject.type, subject.relation);
+  }
+  return [...types.values()];
+}
+
+// Evaluate assertions with a bulk check and expected relations with
+// LookupSubjects, everything at the revision the first call was evaluated at.
+// Failures are checked again with tracing, up to maxTraces of them.
+export async function runAssertions(
+  client: SpiceDBClient,
+  input: AssertionInput,
+  options: AssertionOptions
+): Promise<AssertionReport> {
+  let checkedAt: string | undefined;
+  const consistency = (): Consistency =>
+    checkedAt ? client.atExactSnapshot(checkedAt) : options.consistency;
+
+  let tracesLeft = options.maxTraces;
+  const traceCheck = async (
+    check: ParsedAssertion
+  ): Promise<CheckDebugTrace | undefined> => {
+    if (tracesLeft <= 0) {
+      return undefined;
+    }
+    tracesLeft--;
+    try {
+      const response = await client.checkPermission(
+        {
+          consistency: consistency(),
+          resource: buildObjectReference(check.resourceType, check.resourceId),
+          permission: check.permission,
+          subject: buildSubjectReference(
+            check.subjectType,
+            check.subjectId,
+            check.subjectRelation
+          ),
+          context: check.context,
+          withTracing: true,
+        },
+        { signal: options.signal }
+      );
+      return response.debugTrace?.check;
+    } catch (error) {
+      // The failure is still reported, just without a trace
+      console.error('Error tracing a failed assertion:', error);
+      return undefined;
+    }
+  };
+
+  // Assertions
+  const assertions: AssertionResult[] = [];
+  const checks: { result: AssertionResult; check: ParsedAssertion }[] = [];
+  for (const kind of Object.keys(expectedPermissionship) as AssertionKind[]) {
+    for (const assertion of input.assertions[kind]) {
+      const result: AssertionResult = {
+        kind,
+        assertion,
+        expected: expectedPermissionship[kind],
+        passed: false,
+      };
+      assertions.push(result);
+      try {
+        checks.push({ result, check: parseAssertion(client, assertion) });
+      } catch (error) {
+        result.error = error instanceof Error ? error.message : `${error}`;
+      }
+    }
+  }
+
+  if (checks.length > 0) {
+    const items: CheckBulkPermissionsRequestItem[] = checks.map(
+      ({ check }) => ({
+        resource: buildObjectReference(check.resourceType, check.resourceId),
+        permission: check.permission,
+        subject: buildSubjectReference(
+          check.subjectType,
+          check.subjectId,
+          check.subjectRelation
+        ),
+        context: check.context,
+      })
+    );
+    const response = await client.checkBulkPermissions(
+      { consistency: consistency(), items },
+      { signal: options.signal }
+    );
+    checkedAt = response.checkedAt?.token;
+
+    for (const [index, { result, check }] of checks.entries()) {
+      const pair = response.pairs[index];
+      if (pair?.error) {
+        result.error = describeError(new SpiceDBError(pair.error));
+        continue;
+      }
+      result.actual = pair?.item?.permissionship;
+      result.passed = result.actual === result.expected;
+      if (!result.passed) {
+        result.trace = await traceCheck(check);
+      }
+    }
+  }
+
+  // Expected relations
+  const validation: ExpectedRelationsResult[] = [];
+  const blocks = Object.entries(input.validation);
+  const schemaText =
+    blocks.length > 0
+      ? (await client.readSchema({}, { signal: options.signal })).schemaText
+      : '';
+
+  for (const [key, entries] of blocks) {
+    const result: ExpectedRelationsResult = {
+      key,
+      passed: false,
+      expected: [],
+      missing: [],
+      unexpected: [],
+      traces: [],
+    };
+    validation.push(result);
+
+    try {
+      const resource = key.trim().match(/^([^\s:#]+):([^\s:#]+)#([^\s:#]+)$/);
+      if (!resource) {
+        throw new Error(
+          `Invalid key "${key}"; expected resourceType:resourceId#permission`
+        );
+      }
+      const [, resourceType, resourceId, permission] = resource;
+
+      const expectedSubjects = entries.map(parseExpectedRelation);
+      result.expected = [
+        ...new Set(expectedSubjects.map(subjectToString)),
+      ].sort();
+
+      const actual = new Set<string>();
+      for (const subjectType of subjectTypesToLookUp(
+        schemaText,
+        expectedSubjects
+      )) {
+        const { results, truncated } = await collectResults(
+          client.lookupSubjects(
+            {
+              consistency: consistency(),
+              resource: buildObjectReference(resourceType, resourceId),
+              permission,
+              subjectObjectType: subjectType.type,
+              optionalSubjectRelation: subjectType.relation,
+            },
+            { maxResults: options.maxSubjects + 1, signal: options.signal }
+          ),
+          options.maxSubjects
+        );
+        if (truncated) {
+          throw new Error(
+            `More than ${options.maxSubjects} ${subjectType.type} subjects have ${permission}; not compared`
+          );
+        }
+
+        checkedAt ??= results[0]?.lookedUpAt?.token;
+        const found = (
+          id: string,
+          permissionship: string,
+          excluded: ExpectedSubject[] = []
+        ): ExpectedSubject => ({
+          ...subjectType,
+          id,
+          conditional:
+            permissionship === 'LOOKUP_PERMISSIONSHIP_CONDITIONAL_PERMISSION',
+          excluded,
+        });
+        for (const { subject, excludedSubjects } of results) {
+          actual.add(
+            subjectToString(
+              found(
+                subject.subjectObjectId,
+                subject.permissionship,
+                excludedSubjects.map((excluded) =>
+                  found(excluded.subjectObjectId, excluded.permissionship)
+                )
+              )
+            )
+          );
+        }
+      }
+
+      result.missing = result.expected.filter(
+        (subject) => !actual.has(subject)
+      );
+      result.unexpected = [...actual]
+        .filter((subject) => !result.expected.includes(subject))
+        .sort();
+      result.passed =
+        result.missing.length === 0 && result.unexpected.length === 0;
+
+      // Wildcards can't be checked directly, so only concrete subjects are traced
+      for (const subject of [...result.missing, ...result.unexpected]) {
+        const parsed = parseSubject(subject.replace(' (conditional)', ''));
+        if (parsed.id === '*') continue;
+
+        const trace = await traceCheck({
+          resourceType,
+          resourceId,
+          permission,
+          subjectType: parsed.type,
+          subjectId: parsed.id,
+          subjectRelation: parsed.relation,
+        });
+        if (trace) {
+          result.traces.push({ subject, trace });
+        }
+      }
+    } catch (error) {
+      result.error =
+        error instanceof SpiceDBError
+          ? describeError(error)
+          : error instanceof Error
+            ? error.message
+            : `${error}`;
+    }
+  }
+
+  return { assertions, validation, checkedAt };
+}
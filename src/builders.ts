@@ -0,0 +1,139 @@
+// Typed builders for the objects sent to SpiceDB. Missing or inconsistent
+// fields are rejected here with the field named, instead of reaching SpiceDB
+// as a request that quietly matches the wrong relationships.
+import {
+  ContextualizedCaveat,
+  ObjectReference,
+  Relationship,
+  RelationshipFilter,
+  SubjectReference,
+} from './api-types.js';
+
+function required(value: string | undefined, field: string): string {
+  if (!value) {
+    throw new Error(`${field} is required`);
+  }
+  return value;
+}
+
+export function buildObjectReference(
+  objectType: string,
+  objectId: string
+): ObjectReference {
+  return {
+    objectType: required(objectType, 'objectType'),
+    objectId: required(objectId, 'objectId'),
+  };
+}
+
+export function buildSubjectReference(
+  subjectType: string,
+  subjectId: string,
+  subjectRelation?: string
+): SubjectReference {
+  const subject: SubjectReference = {
+    object: {
+      objectType: required(subjectType, 'subjectType'),
+      objectId: required(subjectId, 'subjectId'),
+    },
+  };
+  if (subjectRelation) {
+    subject.optionalRelation = subjectRelation;
+  }
+  return subject;
+}
+
+export interface RelationshipFields {
+  resourceType: string;
+  resourceId: string;
+  relation: string;
+  subjectType: string;
+  subjectId: string;
+  subjectRelation?: string;
+  caveat?: { caveatName: string; context?: Record<string, any> };
+  // Any timestamp Date can parse; sent as RFC 3339
+  expiresAt?: string;
+}
+
+export function buildRelationship(fields: RelationshipFields): Relationship {
+  const relationship: Relationship = {
+    resource: {
+      objectType: required(fields.resourceType, 'resourceType'),
+      objectId: required(fields.resourceId, 'resourceId'),
+    },
+    relation: required(fields.relation, 'relation'),
+    subject: buildSubjectReference(
+      fields.subjectType,
+      fields.subjectId,
+      fields.subjectRelation
+    ),
+  };
+
+  if (fields.caveat) {
+    const caveat: ContextualizedCaveat = {
+      caveatName: required(fields.caveat.caveatName, 'caveatName'),
+      context: fields.caveat.context || {},
+    };
+    relationship.optionalCaveat = caveat;
+  }
+
+  if (fields.expiresAt) {
+    const expiresAt = new Date(fields.expiresAt);
+    if (isNaN(expiresAt.getTime())) {
+      throw new Error(`Invalid expiration timestamp: ${fields.expiresAt}`);
+    }
+    relationship.optionalExpiresAt = expiresAt.toISOString();
+  }
+
+  return relationship;
+}
+
+// Fields of a relationship filter; any left out match everything
+export interface RelationshipFilterFields {
+  resourceType?: string;
+  resourceId?: string;
+  relation?: string;
+  subjectType?: string;
+  subjectId?: string;
+  subjectRelation?: string;
+}
+
+export function buildRelationshipFilter(
+  fields: RelationshipFilterFields
+): RelationshipFilter {
+  const filter: RelationshipFilter = {};
+
+  if (fields.resourceType) {
+    filter.resourceType = fields.resourceType;
+  }
+  if (fields.resourceId) {
+    filter.optionalResourceId = fields.resourceId;
+  }
+  if (fields.relation) {
+    filter.optionalRelation = fields.relation;
+  }
+
+  // The subject filter is keyed by type, so its other fields can't stand alone
+  if (!fields.subjectType) {
+    if (fields.subjectId || fields.subjectRelation) {
+      throw new Error(
+        `${
+          fields.subjectId ? 'subjectId' : 'subjectRelation'
+        } can only be used together with subjectType`
+      );
+    }
+    return filter;
+  }
+
+  filter.optionalSubjectFilter = { subjectType: fields.subjectType };
+  if (fields.subjectId) {
+    filter.optionalSubjectFilter.optionalSubjectId = fields.subjectId;
+  }
+  if (fields.subjectRelation) {
+    filter.optionalSubjectFilter.optionalRelation = {
+      relation: fields.subjectRelation,
+    };
+  }
+
+  return filter;
+}
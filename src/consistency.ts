@@ -0,0 +1,107 @@
+import { z } from 'zod';
+import { SpiceDBClient } from './spicedb-client.js';
+import { Consistency } from './api-types.js';
+
+// Consistency modes accepted by the read tools, mirroring SpiceDB's Consistency message
+export const consistencyModes = [
+  'minimize_latency',
+  'at_least_as_fresh',
+  'at_exact_snapshot',
+  'fully_consistent',
+] as const;
+
+export type ConsistencyMode = (typeof consistencyModes)[number];
+
+// Tool parameters shared by every read tool for choosing consistency
+export const consistencyParams = {
+  consistency: z
+    .enum(consistencyModes)
+    .optional()
+    .describe(
+      'Consistency for the read. Defaults to read-your-writes after a write in this session, otherwise to the server default.'
+    ),
+  zedToken: z
+    .string()
+    .optional()
+    .describe(
+      'ZedToken for at_least_as_fresh or at_exact_snapshot consistency'
+    ),
+};
+
+// Read the server-level default consistency from SPICEDB_DEFAULT_CONSISTENCY.
+// Only modes that don't need a ZedToken can be used as a default.
+export function getDefaultConsistencyMode(): ConsistencyMode {
+  const configured = process.env.SPICEDB_DEFAULT_CONSISTENCY;
+  if (!configured) {
+    return 'fully_consistent';
+  }
+
+  if (configured === 'minimize_latency' || configured === 'fully_consistent') {
+    return configured;
+  }
+
+  console.error(
+    `Unsupported SPICEDB_DEFAULT_CONSISTENCY "${configured}", falling back to fully_consistent`
+  );
+  return 'fully_consistent';
+}
+
+// Tracks the newest ZedToken written in each MCP session, so that reads issued
+// after a write can default to read-your-writes instead of full consistency
+export class ZedTokenTracker {
+  private tokens = new Map<string, string>();
+
+  public record(sessionId: string | undefined, token: string | undefined) {
+    if (token) {
+      this.tokens.set(sessionId ?? '', token);
+    }
+  }
+
+  public get(sessionId: string | undefined): string | undefined {
+    return this.tokens.get(sessionId ?? '');
+  }
+
+  // Drop the token of a session that has ended
+  public forget(sessionId: string) {
+    this.tokens.delete(sessionId);
+  }
+}
+
+// Build the consistency object for a read. An explicit mode wins; otherwise
+// the session's last write token is used, then the server-level default.
+export function resolveConsistency(
+  client: SpiceDBClient,
+  defaultMode: ConsistencyMode,
+  sessionToken: string | undefined,
+  mode?: ConsistencyMode,
+  zedToken?: string
+): Consistency {
+  switch (mode) {
+    case 'minimize_latency':
+      return client.minimalLatency();
+    case 'fully_consistent':
+      return client.fullConsistency();
+    case 'at_least_as_fresh': {
+      const token = zedToken || sessionToken;
+      if (!token) {
+        throw new Error(
+          'at_least_as_fresh consistency requires a zedToken (no write has been made in this session yet)'
+        );
+      }
+      return client.atLeastAsFresh(token);
+    }
+    case 'at_exact_snapshot':
+      if (!zedToken) {
+        throw new Error('at_exact_snapshot consistency requires a zedToken');
+      }
+      return client.atExactSnapshot(zedToken);
+  }
+
+  if (sessionToken) {
+    return client.atLeastAsFresh(sessionToken);
+  }
+
+  return defaultMode === 'minimize_latency'
+    ? client.minimalLatency()
+    : client.fullConsistency();
+}
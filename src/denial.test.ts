@@ -0,0 +1,119 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  CheckPermissionRequest,
+  ReadRelationshipsRequest,
+} from './api-types.js';
+import { explainDenial } from './denial.js';
+import { SpiceDBClient } from './spicedb-client.js';
+
+const schemaText = `definition user {}
+
+definition document {
+  relation viewer: user
+  relation editor: user
+  relation banned: user
+  permission view = viewer + editor - banned
+}`;
+
+// Answers the calls explainDenial makes from a list of relationships, with
+// view evaluated as SpiceDB does: viewer + (editor - banned)
+function fakeClient(relationships: string[]): SpiceDBClient {
+  const parsed = relationships.map((relationship) => {
+    const [, resourceType, resourceId, relation, subjectType, subjectId] =
+      relationship.match(/^(\w+):(\w+)#(\w+)@(\w+):(\w+)$/)!;
+    return { resourceType, resourceId, relation, subjectType, subjectId };
+  });
+  const related = (request: CheckPermissionRequest, relation: string) =>
+    parsed.some(
+      (rel) =>
+        rel.resourceType === request.resource.objectType &&
+        rel.resourceId === request.resource.objectId &&
+        rel.relation === relation &&
+        rel.subjectType === request.subject.object.objectType &&
+        rel.subjectId === request.subject.object.objectId
+    );
+
+  const client = {
+    atExactSnapshot: (token: string) => ({ atExactSnapshot: { token } }),
+    readSchema: async () => ({ schemaText }),
+    checkPermission: async (request: CheckPermissionRequest) => {
+      const granted =
+        request.permission === 'view'
+          ? related(request, 'viewer') ||
+            (related(request, 'editor') && !related(request, 'banned'))
+          : related(request, request.permission);
+      return {
+        checkedAt: { token: 'revision' },
+        permissionship: granted
+          ? 'PERMISSIONSHIP_HAS_PERMISSION'
+          : 'PERMISSIONSHIP_NO_PERMISSION',
+      };
+    },
+    readRelationships: async function* (request: ReadRelationshipsRequest) {
+      const filter = request.relationshipFilter;
+      for (const rel of parsed) {
+        if (
+          rel.resourceType === filter.resourceType &&
+          rel.resourceId === filter.optionalResourceId &&
+          rel.relation === filter.optionalRelation
+        ) {
+          yield {
+            relationship: {
+              resource: {
+                objectType: rel.resourceType,
+                objectId: rel.resourceId,
+              },
+              relation: rel.relation,
+              subject: {
+                object: {
+                  objectType: rel.subjectType,
+                  objectId: rel.subjectId,
+                },
+              },
+            },
+          };
+        }
+      }
+    },
+  };
+  return client as unknown as SpiceDBClient;
+}
+
+function explain(relationships: string[]) {
+  return explainDenial(
+    fakeClient(relationships),
+    { objectType: 'document', objectId: '1' },
+    'view',
+    { object: { objectType: 'user', objectId: 'alice' } },
+    { consistency: { fullyConsistent: true }, maxCandidates: 10 }
+  );
+}
+
+test('an exclusion only blocks the side of the union it applies to', async () => {
+  const analysis = await explain([
+    'document:1#editor@user:alice',
+    'document:1#banned@user:alice',
+  ]);
+
+  assert.equal(analysis.permissionship, 'PERMISSIONSHIP_NO_PERMISSION');
+  assert.deepEqual(
+    analysis.candidates.map((candidate) => candidate.relationships),
+    [['document:1#viewer@user:alice']]
+  );
+  assert.deepEqual(
+    analysis.blockers.map((blocker) => [blocker.kind, blocker.at]),
+    [['exclusion', 'document:1#view']]
+  );
+  assert.match(analysis.blockers[0].description, /"editor - banned"/);
+});
+
+test('without an exclusion in the way both grants are candidates', async () => {
+  const analysis = await explain([]);
+
+  assert.deepEqual(
+    analysis.candidates.map((candidate) => candidate.relationships),
+    [['document:1#editor@user:alice'], ['document:1#viewer@user:alice']]
+  );
+  assert.deepEqual(analysis.blockers, []);
+});
@@ -0,0 +1,567 @@
+// Work out why a subject lacks a permission: walk the schema's expression for
+// the permission over the current relationships, and list the relationships
+// that would grant it along with the exclusions and intersections in the way
+import {
+  Consistency,
+  Context,
+  ObjectReference,
+  Permissionship,
+  SubjectReference,
+} from './api-types.js';
+import { SpiceDBClient, collectResults } from './spicedb-client.js';
+import {
+  PermissionExpression,
+  RelationNode,
+  SchemaAST,
+  expressionToString,
+  findDefinition,
+  parseSchema,
+} from './schema-parser.js';
+
+// How far the walk follows usersets and arrows away from the resource
+const maxWalkDepth = 6;
+// Relationships read per relation when following usersets and arrows
+const maxFanout = 25;
+// Candidates combined from each side of an intersection
+const maxCombined = 3;
+
+export interface DenialOptions {
+  consistency: Consistency;
+  context?: Context;
+  // Most candidates returned
+  maxCandidates: number;
+  signal?: AbortSignal;
+}
+
+// Relationships that would grant the permission if all were written
+export interface Candidate {
+  relationships: string[];
+  // For each relationship, the relations and permissions from the requested
+  // permission down to where it is written, as "type:id#name"
+  paths: string[][];
+  // Lower is narrower: each relationship counts 1, each other object the
+  // grant goes through 2, since it also grants whatever that object grants,
+  // a caveat 1, since it only grants conditionally, and a wildcard 100
+  score: number;
+  // Caveat or wildcard to know about before writing it
+  note?: string;
+}
+
+// An exclusion the subject is removed by, or an intersection it only meets
+// one side of
+export interface Blocker {
+  kind: 'exclusion' | 'intersection';
+  // The "type:id#permission" whose expression it is in
+  at: string;
+  description: string;
+}
+
+export interface DenialAnalysis {
+  permissionship: Permissionship;
+  // ZedToken of the revision everything was read at, when SpiceDB reports it
+  checkedAt?: string;
+  candidates: Candidate[];
+  // Candidates found before the list was cut to maxCandidates
+  candidateCount: number;
+  blockers: Blocker[];
+  // Parts of the walk left out, for example because of the fan-out limit
+  notes: string[];
+}
+
+function objectToString(object: ObjectReference): string {
+  return `${object.objectType}:${object.objectId}`;
+}
+
+function subjectToString(subject: SubjectReference): string {
+  return subject.optionalRelation
+    ? `${objectToString(subject.object)}#${subject.optionalRelation}`
+    : objectToString(subject.object);
+}
+
+// Walks the schema for one subject, with the current relationships read at
+// one revision and checks cached per relation or permission
+class DenialWalker {
+  public blockers = new Map<string, Blocker>();
+  public notes = new Set<string>();
+  private checks = new Map<string, Promise<boolean>>();
+
+  constructor(
+    private client: SpiceDBClient,
+    private schema: SchemaAST,
+    private subject: SubjectReference,
+    private consistency: Consistency,
+    private options: DenialOptions
+  ) {}
+
+  // Candidates for a relation or permission on an object
+  public async candidatesFor(
+    object: ObjectReference,
+    name: string,
+    path: string[],
+    depth: number
+  ): Promise<Candidate[]> {
+    const step = `${objectToString(object)}#${name}`;
+    if (path.includes(step)) {
+      return [];
+    }
+    if (depth > maxWalkDepth) {
+      this.notes.add(
+        `Stopped following usersets and arrows ${maxWalkDepth} objects away from the resource`
+      );
+      return [];
+    }
+
+    const definition = findDefinition(this.schema, object.objectType);
+    const relation = definition?.relations.find((rel) => rel.name === name);
+    const permission = definition?.permissions.find(
+      (perm) => perm.name === name
+    );
+    if (relation) {
+      return this.relationCandidates(object, relation, [...path, step], depth);
+    }
+    if (permission) {
+      return this.expressionCandidates(
+        object,
+        permission.expression,
+        [...path, step],
+        depth
+      );
+    }
+    return [];
+  }
+
+  private candidate(
+    relationship: string,
+    path: string[],
+    options: { caveat?: string; wildcard?: boolean; note?: string } = {}
+  ): Candidate {
+    const objects = new Set(path.map((step) => step.split('#')[0]));
+    return {
+      relationships: [relationship],
+      paths: [path],
+      score:
+        1 +
+        2 * (objects.size - 1) +
+        (options.caveat ? 1 : 0) +
+        (options.wildcard ? 100 : 0),
+      note: options.note,
+    };
+  }
+
+  private async relationCandidates(
+    object: ObjectReference,
+    relation: RelationNode,
+    path: string[],
+    depth: number
+  ): Promise<Candidate[]> {
+    const { objectType } = this.subject.object;
+    const { optionalRelation } = this.subject;
+    const prefix = `${objectToString(object)}#${relation.name}@`;
+    const candidates: Candidate[] = [];
+
+    // A direct grant, without a caveat when the relation allows one
+    const direct = relation.subjectTypes
+      .filter(
+        (allowed) =>
+          !allowed.wildcard &&
+          allowed.type === objectType &&
+          allowed.relation === optionalRelation
+      )
+      .sort((a, b) => Number(!!a.caveat) - Number(!!b.caveat))[0];
+    if (direct) {
+      candidates.push(
+        this.candidate(
+          `${prefix}${subjectToString(this.subject)}${
+            direct.caveat ? `[${direct.caveat}]` : ''
+          }`,
+          path,
+          {
+            caveat: direct.caveat,
+            note: direct.caveat
+              ? `only grants access when the ${direct.caveat} caveat is satisfied`
+              : undefined,
+          }
+        )
+      );
+    }
+
+    const wildcard = relation.subjectTypes.find(
+      (allowed) =>
+        allowed.wildcard && allowed.type === objectType && !optionalRelation
+    );
+    if (wildcard) {
+      candidates.push(
+        this.candidate(`${prefix}${objectType}:*`, path, {
+          wildcard: true,
+          note: `grants every ${objectType}`,
+        })
+      );
+    }
+
+    // Joining a userset already related here, such as a group's members
+    for (const allowed of relation.subjectTypes) {
+      if (
+        !allowed.relation ||
+        (allowed.type === objectType && allowed.relation === optionalRelation)
+      ) {
+        continue;
+      }
+      const usersetRelation = allowed.relation;
+      const related = await this.related(object, relation.name, {
+        subjectType: allowed.type,
+        optionalRelation: { relation: usersetRelation },
+      });
+      for (const subject of related) {
+        candidates.push(
+          ...(await this.candidatesFor(
+            subject.object,
+            usersetRelation,
+            path,
+            depth + 1
+          ))
+        );
+      }
+    }
+
+    return candidates;
+  }
+
+  private async expressionCandidates(
+    object: ObjectReference,
+    expression: PermissionExpression,
+    path: string[],
+    depth: number
+  ): Promise<Candidate[]> {
+    const at = path[path.length - 1];
+    switch (expression.kind) {
+      case 'nil':
+        return [];
+
+      case 'reference':
+        return this.candidatesFor(object, expression.name, path, depth);
+
+      case 'union':
+        return [
+          ...(await this.expressionCandidates(
+            object,
+            expression.left,
+            path,
+            depth
+          )),
+          ...(await this.expressionCandidates(
+            object,
+            expression.right,
+            path,
+            depth
+          )),
+        ];
+
+      case 'exclusion': {
+        const kept = expressionToString(expression.left);
+        const excluded = expressionToString(expression.right);
+        if (await this.satisfies(object, expression.right)) {
+          this.block(
+            'exclusion',
+            at,
+            `${subjectToString(
+              this.subject
+            )} has "${excluded}", which "${kept} - ${excluded}" removes; granting "${kept}" won't help until that is removed`
+          );
+          return [];
+        }
+        return this.expressionCandidates(object, expression.left, path, depth);
+      }
+
+      case 'intersection': {
+        const sides = [expression.left, expression.right];
+        const met = await Promise.all(
+          sides.map((side) => this.satisfies(object, side))
+        );
+        const missing = sides.filter((_, index) => !met[index]);
+        if (missing.length === 0) {
+          return [];
+        }
+        const names = sides.map(expressionToString);
+        this.block(
+          'intersection',
+          at,
+          `requires both "${names[0]}" and "${names[1]}"; ${subjectToString(
+            this.subject
+          )} ${
+            missing.length === 1
+              ? `only has "${names[met[0] ? 0 : 1]}"`
+              : 'has neither'
+          }`
+        );
+
+        const perSide = await Promise.all(
+          missing.map((side) =>
+            this.expressionCandidates(object, side, path, depth)
+          )
+        );
+        return combine(perSide);
+      }
+
+      case 'arrow': {
+        const targets = await this.related(object, expression.relation);
+        if (targets.length === 0) {
+          this.notes.add(
+            `${objectToString(object)} has no ${
+              expression.relation
+            } relationships, so "${expressionToString(
+              expression
+            )}" grants nothing until it is related to an object that grants ${
+              expression.permission
+            }`
+          );
+          return [];
+        }
+
+        const perTarget: Candidate[][] = [];
+        for (const target of targets) {
+          if (
+            expression.function === 'all' &&
+            (await this.has(target.object, expression.permission))
+          ) {
+            continue;
+          }
+          perTarget.push(
+            await this.candidatesFor(
+              target.object,
+              expression.permission,
+              path,
+              depth + 1
+            )
+          );
+        }
+
+        if (expression.function !== 'all') {
+          return perTarget.flat();
+        }
+        this.block(
+          'intersection',
+          at,
+          `"${expressionToString(expression)}" requires ${
+            expression.permission
+          } on every ${expression.relation} (${targets
+            .map((target) => objectToString(target.object))
+            .join(', ')})`
+        );
+        return combine(perTarget);
+      }
+    }
+  }
+
+  private block(kind: Blocker['kind'], at: string, description: string) {
+    this.blockers.set(`${at} ${description}`, { kind, at, description });
+  }
+
+  // Whether the subject meets an expression on an object
+  private async satisfies(
+    object: ObjectReference,
+    expression: PermissionExpression
+  ): Promise<boolean> {
+    switch (expression.kind) {
+      case 'nil':
+        return false;
+      case 'reference':
+        return this.has(object, expression.name);
+      case 'union':
+        return (
+          (await this.satisfies(object, expression.left)) ||
+          this.satisfies(object, expression.right)
+        );
+      case 'intersection':
+        return (
+          (await this.satisfies(object, expression.left)) &&
+          this.satisfies(object, expression.right)
+        );
+      case 'exclusion':
+        return (
+          (await this.satisfies(object, expression.left)) &&
+          !(await this.satisfies(object, expression.right))
+        );
+      case 'arrow': {
+        const targets = await this.related(object, expression.relation);
+        const met = await Promise.all(
+          targets.map((target) =>
+            this.has(target.object, expression.permission)
+          )
+        );
+        return expression.function === 'all'
+          ? met.length > 0 && met.every(Boolean)
+          : met.some(Boolean);
+      }
+    }
+  }
+
+  // Whether the subject has a relation or permission on an object
+  private has(object: ObjectReference, name: string): Promise<boolean> {
+    const key = `${objectToString(object)}#${name}`;
+    let check = this.checks.get(key);
+    if (!check) {
+      check = this.client
+        .checkPermission(
+          {
+            consistency: this.consistency,
+            resource: object,
+            permission: name,
+            subject: this.subject,
+            context: this.options.context,
+            withTracing: false,
+          },
+          { signal: this.options.signal }
+        )
+        .then(
+          (response) =>
+            response.permissionship === 'PERMISSIONSHIP_HAS_PERMISSION'
+        );
+      this.checks.set(key, check);
+    }
+    return check;
+  }
+
+  // The subjects of a relation on an object, less wildcards
+  private async related(
+    object: ObjectReference,
+    relation: string,
+    subjectFilter?: {
+      subjectType: string;
+      optionalRelation?: { relation: string };
+    }
+  ): Promise<SubjectReference[]> {
+    const { results, truncated } = await collectResults(
+      this.client.readRelationships(
+        {
+          consistency: this.consistency,
+          relationshipFilter: {
+            resourceType: object.objectType,
+            optionalResourceId: object.objectId,
+            optionalRelation: relation,
+            optionalSubjectFilter: subjectFilter,
+          },
+        },
+        { maxResults: maxFanout + 1, signal: this.options.signal }
+      ),
+      maxFanout
+    );
+    if (truncated) {
+      this.notes.add(
+        `Only the first ${maxFanout} ${objectToString(
+          object
+        )}#${relation} relationships were followed`
+      );
+    }
+    return results
+      .map((result) => result.relationship.subject)
+      .filter((subject) => subject.object.objectId !== '*');
+  }
+}
+
+// Candidates that meet every one of several requirements: one candidate from
+// each, the narrowest few of each combined
+function combine(requirements: Candidate[][]): Candidate[] {
+  if (requirements.some((candidates) => candidates.length === 0)) {
+    return [];
+  }
+
+  let combined: Candidate[] = [{ relationships: [], paths: [], score: 0 }];
+  for (const candidates of requirements) {
+    const narrowest = [...candidates]
+      .sort((a, b) => a.score - b.score)
+      .slice(0, maxCombined);
+    combined = combined.flatMap((partial) =>
+      narrowest.map((candidate) => ({
+        relationships: [...partial.relationships, ...candidate.relationships],
+        paths: [...partial.paths, ...candidate.paths],
+        score: partial.score + candidate.score,
+        note:
+          [partial.note, candidate.note].filter(Boolean).join('; ') ||
+          undefined,
+      }))
+    );
+  }
+  return combined;
+}
+
+// Check the permission, and when it isn't granted, walk the schema for the
+// relationships that would grant it. Everything is read at the revision the
+// check was evaluated at.
+export async function explainDenial(
+  client: SpiceDBClient,
+  resource: ObjectReference,
+  permission: string,
+  subject: SubjectReference,
+  options: DenialOptions
+): Promise<DenialAnalysis> {
+  const check = await client.checkPermission(
+    {
+      consistency: options.consistency,
+      resource,
+      permission,
+      subject,
+      context: options.context,
+      withTracing: false,
+    },
+    { signal: options.signal }
+  );
+  const checkedAt = check.checkedAt?.token;
+  const analysis: DenialAnalysis = {
+    permissionship: check.permissionship,
+    checkedAt,
+    candidates: [],
+    candidateCount: 0,
+    blockers: [],
+    notes: [],
+  };
+  if (check.permissionship !== 'PERMISSIONSHIP_NO_PERMISSION') {
+    return analysis;
+  }
+
+  const schema = parseSchema(
+    (await client.readSchema({}, { signal: options.signal })).schemaText
+  );
+  const definition = findDefinition(schema, resource.objectType);
+  if (
+    !definition ||
+    ![...definition.relations, ...definition.permissions].some(
+      (node) => node.name === permission
+    )
+  ) {
+    throw new Error(
+      `The schema has no relation or permission "${permission}" on "${resource.objectType}"`
+    );
+  }
+
+  const walker = new DenialWalker(
+    client,
+    schema,
+    subject,
+    checkedAt ? client.atExactSnapshot(checkedAt) : options.consistency,
+    options
+  );
+  const found = await walker.candidatesFor(resource, permission, [], 0);
+
+  // The same relationships can be reached along several paths; keep the narrowest
+  const unique = new Map<string, Candidate>();
+  for (const candidate of found) {
+    const key = [...candidate.relationships].sort().join('\n');
+    const previous = unique.get(key);
+    if (!previous || candidate.score < previous.score) {
+      unique.set(key, candidate);
+    }
+  }
+  const ranked = [...unique.values()].sort(
+    (a, b) =>
+      a.score - b.score ||
+      a.relationships.join('\n').localeCompare(b.relationships.join('\n'))
+  );
+
+  return {
+    ...analysis,
+    candidates: ranked.slice(0, options.maxCandidates),
+    candidateCount: ranked.length,
+    blockers: [...walker.blockers.values()],
+    notes: [...walker.notes],
+  };
+}
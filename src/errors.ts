@@ -0,0 +1,231 @@
+// Typed errors for failed SpiceDB calls, and explanations of what to do about them
+
+// gRPC status code names, indexed by code
+const grpcCodeNames = [
+  'OK',
+  'CANCELLED',
+  'UNKNOWN',
+  'INVALID_ARGUMENT',
+  'DEADLINE_EXCEEDED',
+  'NOT_FOUND',
+  'ALREADY_EXISTS',
+  'PERMISSION_DENIED',
+  'RESOURCE_EXHAUSTED',
+  'FAILED_PRECONDITION',
+  'ABORTED',
+  'OUT_OF_RANGE',
+  'UNIMPLEMENTED',
+  'INTERNAL',
+  'UNAVAILABLE',
+  'DATA_LOSS',
+  'UNAUTHENTICATED',
+];
+
+export const grpcCode = {
+  CANCELLED: 1,
+  UNKNOWN: 2,
+  INVALID_ARGUMENT: 3,
+  DEADLINE_EXCEEDED: 4,
+  NOT_FOUND: 5,
+  ALREADY_EXISTS: 6,
+  PERMISSION_DENIED: 7,
+  RESOURCE_EXHAUSTED: 8,
+  FAILED_PRECONDITION: 9,
+  ABORTED: 10,
+  UNIMPLEMENTED: 12,
+  INTERNAL: 13,
+  UNAVAILABLE: 14,
+  UNAUTHENTICATED: 16,
+} as const;
+
+// The gRPC status of a failed call, in the JSON form the HTTP gateway returns
+export interface SpiceDBStatus {
+  code: number;
+  message: string;
+  // google.rpc detail messages; SpiceDB sends an ErrorInfo with an ERROR_REASON_* reason
+  details?: any[];
+}
+
+// gRPC codes that mean SpiceDB is unhealthy or overloaded rather than that the
+// request was wrong, so the same request may succeed later
+const transientCodes: number[] = [
+  grpcCode.DEADLINE_EXCEEDED,
+  grpcCode.RESOURCE_EXHAUSTED,
+  grpcCode.ABORTED,
+  grpcCode.INTERNAL,
+  grpcCode.UNAVAILABLE,
+];
+
+// The gRPC code the gateway would have used for an HTTP status without a status body
+function codeForHttpStatus(status: number): number {
+  switch (status) {
+    case 400:
+      return grpcCode.INVALID_ARGUMENT;
+    case 401:
+      return grpcCode.UNAUTHENTICATED;
+    case 403:
+      return grpcCode.PERMISSION_DENIED;
+    case 404:
+      return grpcCode.NOT_FOUND;
+    case 409:
+      return grpcCode.ABORTED;
+    case 429:
+      return grpcCode.RESOURCE_EXHAUSTED;
+    case 501:
+      return grpcCode.UNIMPLEMENTED;
+    case 502:
+    case 503:
+      return grpcCode.UNAVAILABLE;
+    case 504:
+      return grpcCode.DEADLINE_EXCEEDED;
+    default:
+      return status >= 500 ? grpcCode.INTERNAL : grpcCode.UNKNOWN;
+  }
+}
+
+// Error raised when a SpiceDB call fails, carrying the parsed gRPC status
+export class SpiceDBError extends Error {
+  public readonly code: number;
+  public readonly codeName: string;
+  // The message from the status, without the code prefix
+  public readonly statusMessage: string;
+  // The ERROR_REASON_* from the status's ErrorInfo detail, if any
+  public readonly reason?: string;
+  // The ErrorInfo metadata, for example definition_name
+  public readonly metadata: Record<string, string>;
+  public readonly httpStatus?: number;
+
+  constructor(status: SpiceDBStatus, httpStatus?: number) {
+    const codeName = grpcCodeNames[status.code] || `code ${status.code}`;
+    super(`SpiceDB API error (${codeName}): ${status.message}`);
+    this.name = 'SpiceDBError';
+    this.code = status.code;
+    this.codeName = codeName;
+    this.statusMessage = status.message;
+    this.httpStatus = httpStatus;
+
+    const info = (status.details || []).find(
+      (detail) => typeof detail?.reason === 'string'
+    );
+    this.reason = info?.reason;
+    this.metadata = info?.metadata || {};
+  }
+
+  // Parse a failed HTTP gateway response, which carries the gRPC status as JSON
+  static fromResponse(httpStatus: number, body: string): SpiceDBError {
+    try {
+      const status = JSON.parse(body);
+      if (typeof status?.code === 'number') {
+        return new SpiceDBError(
+          { ...status, message: status.message || '' },
+          httpStatus
+        );
+      }
+    } catch {
+      // Not a gateway status, for example an error page from a proxy
+    }
+    return new SpiceDBError(
+      {
+        code: codeForHttpStatus(httpStatus),
+        message: body.trim() || `HTTP ${httpStatus}`,
+      },
+      httpStatus
+    );
+  }
+
+  // Whether the same request may succeed if tried again later
+  public get transient(): boolean {
+    return transientCodes.includes(this.code);
+  }
+}
+
+// What to do about a failure, by ERROR_REASON_*
+function reasonHint(error: SpiceDBError): string | undefined {
+  const definition = error.metadata.definition_name;
+  const relation = error.metadata.relation_or_permission_name;
+
+  switch (error.reason) {
+    case 'ERROR_REASON_UNKNOWN_DEFINITION':
+      return `The schema has no definition${
+        definition ? ` "${definition}"` : ' with that name'
+      }. Check the object type against spicedb://schema.`;
+    case 'ERROR_REASON_UNKNOWN_RELATION_OR_PERMISSION':
+      return `${
+        relation ? `"${relation}"` : 'The relation or permission'
+      } is not defined on ${
+        definition ? `"${definition}"` : 'that object type'
+      }. Check its relations and permissions with spicedb://definition/${
+        definition ? encodeURIComponent(definition) : '{objectType}'
+      }.`;
+    case 'ERROR_REASON_UNKNOWN_CAVEAT':
+      return 'The schema has no caveat with that name. Check the caveat name against spicedb://schema.';
+    case 'ERROR_REASON_INVALID_SUBJECT_TYPE':
+      return "The relation doesn't allow this type of subject. Check the relation's allowed subject types in its definition.";
+    case 'ERROR_REASON_CAVEAT_PARAMETER_TYPE_ERROR':
+      return "A caveat context value doesn't match the type of the caveat parameter it is for.";
+    case 'ERROR_REASON_CAVEAT_EVALUATION_ERROR':
+      return 'The caveat expression could not be evaluated with the given context.';
+    case 'ERROR_REASON_SCHEMA_PARSE_ERROR':
+    case 'ERROR_REASON_SCHEMA_TYPE_ERROR':
+      return 'The schema is invalid; fix the reported problem and write it again.';
+    case 'ERROR_REASON_WRITE_OR_DELETE_PRECONDITION_FAILURE':
+      return "A precondition didn't hold, so nothing was written.";
+    case 'ERROR_REASON_ATTEMPT_TO_RECREATE_RELATIONSHIP':
+      return 'The relationship already exists. Use TOUCH to write it whether or not it exists.';
+    case 'ERROR_REASON_UPDATES_ON_SAME_RELATIONSHIP':
+      return 'A relationship may only appear once in a single write.';
+    case 'ERROR_REASON_CANNOT_UPDATE_PERMISSION':
+      return 'Relationships can only be written for relations, not permissions.';
+    case 'ERROR_REASON_WILDCARD_NOT_ALLOWED':
+      return "The relation doesn't allow wildcard (*) subjects.";
+    case 'ERROR_REASON_TOO_MANY_UPDATES_IN_REQUEST':
+    case 'ERROR_REASON_TOO_MANY_PRECONDITIONS_IN_REQUEST':
+    case 'ERROR_REASON_TOO_MANY_CHECKS_IN_REQUEST':
+      return 'The request is larger than SpiceDB allows; split it into smaller batches.';
+    case 'ERROR_REASON_TOO_MANY_RELATIONSHIPS_FOR_TRANSACTIONAL_DELETE':
+      return 'Too many relationships match to delete at once; set optionalLimit and optionalAllowPartialDeletions to delete them in batches.';
+    case 'ERROR_REASON_EXCEEDS_MAXIMUM_ALLOWABLE_LIMIT':
+      return 'The requested limit is larger than SpiceDB allows; use a smaller one.';
+    case 'ERROR_REASON_INVALID_CURSOR':
+      return 'The cursor is no longer valid; start again without a cursor.';
+    case 'ERROR_REASON_MAXIMUM_DEPTH_EXCEEDED':
+      return 'Resolving the permission recursed too deeply; check the schema and relationships for cycles.';
+    case 'ERROR_REASON_SERVICE_READ_ONLY':
+      return 'SpiceDB is running in read-only mode and rejects writes.';
+    case 'ERROR_REASON_SERIALIZATION_FAILURE':
+      return 'The write conflicted with a concurrent write; try again.';
+    default:
+      return undefined;
+  }
+}
+
+// What to do about a failure, by gRPC code
+function codeHint(error: SpiceDBError): string | undefined {
+  switch (error.code) {
+    case grpcCode.CANCELLED:
+      return 'The request was cancelled before SpiceDB answered.';
+    case grpcCode.DEADLINE_EXCEEDED:
+      return 'SpiceDB did not answer in time. Narrow the query, or raise SPICEDB_REQUEST_TIMEOUT_MS if it is expected to be slow.';
+    case grpcCode.UNAUTHENTICATED:
+      return 'SpiceDB rejected the API key. Check SPICEDB_API_KEY, or SPICEDB_<NAME>_API_KEY for a named instance.';
+    case grpcCode.PERMISSION_DENIED:
+      return "The API key isn't allowed to make this call.";
+    case grpcCode.RESOURCE_EXHAUSTED:
+      return 'SpiceDB is rate limiting or overloaded. Wait a moment and try again.';
+    case grpcCode.UNAVAILABLE:
+      return 'SpiceDB could not be reached or is overloaded. Check the endpoint and try again shortly.';
+    case grpcCode.UNIMPLEMENTED:
+      return "This SpiceDB version doesn't support the call.";
+    default:
+      return undefined;
+  }
+}
+
+// Describe a failed call for a tool result: the error, then what to do about it
+export function describeError(error: unknown): string {
+  if (!(error instanceof SpiceDBError)) {
+    return `${error}`;
+  }
+  const hint = reasonHint(error) || codeHint(error);
+  return hint ? `${error.message}\n${hint}` : error.message;
+}
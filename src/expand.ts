@@ -0,0 +1,203 @@
+// Expand a permission with ExpandPermissionTree and render the tree as an
+// indented outline, optionally expanding the usersets among its subjects
+import {
+  AlgebraicOperation,
+  Consistency,
+  ObjectReference,
+  PermissionRelationshipTree,
+  SubjectReference,
+} from './api-types.js';
+import { SpiceDBClient } from './spicedb-client.js';
+import { describeError } from './errors.js';
+
+// Usersets expanded in one call, however many the trees list
+const maxUsersetExpansions = 25;
+
+export interface ExpandOptions {
+  consistency: Consistency;
+  // Levels of the tree rendered below the root
+  maxDepth: number;
+  // Expand userset subjects, such as group:eng#member, into their own trees
+  expandUsersets: boolean;
+  signal?: AbortSignal;
+}
+
+export interface ExpandedPermission {
+  text: string;
+  // ZedToken of the revision the tree was expanded at, when SpiceDB reports it
+  expandedAt?: string;
+  usersetsExpanded: number;
+  // Whether parts of the tree were left out because of maxDepth or the
+  // expansion limit
+  truncated: boolean;
+}
+
+const operationLabels: Record<AlgebraicOperation, string> = {
+  OPERATION_UNSPECIFIED: 'unknown operation of',
+  OPERATION_UNION: 'union of',
+  OPERATION_INTERSECTION: 'intersection of',
+  OPERATION_EXCLUSION: 'exclusion, the first minus the rest, of',
+};
+
+function subjectToString(subject: SubjectReference): string {
+  const { objectType, objectId } = subject.object;
+  // "..." is the relation of a plain subject in expanded trees
+  return subject.optionalRelation && subject.optionalRelation !== '...'
+    ? `${objectType}:${objectId}#${subject.optionalRelation}`
+    : `${objectType}:${objectId}`;
+}
+
+// Renders trees line by line, expanding each userset at most once
+class TreeRenderer {
+  private lines: string[] = [];
+  private expanded = new Set<string>();
+  public expandedAt?: string;
+  public usersetsExpanded = 0;
+  public truncated = false;
+
+  constructor(
+    private client: SpiceDBClient,
+    private options: ExpandOptions
+  ) {}
+
+  public get text(): string {
+    return this.lines.map((line) => `${line}\n`).join('');
+  }
+
+  public async expand(
+    resource: ObjectReference,
+    permission: string,
+    depth: number
+  ): Promise<void> {
+    this.expanded.add(
+      `${resource.objectType}:${resource.objectId}#${permission}`
+    );
+
+    // Later expansions are read at the revision of the first
+    const response = await this.client.expandPermissionTree(
+      {
+        consistency: this.expandedAt
+          ? this.client.atExactSnapshot(this.expandedAt)
+          : this.options.consistency,
+        resource,
+        permission,
+      },
+      { signal: this.options.signal }
+    );
+    this.expandedAt ??= response.expandedAt?.token;
+
+    if (!response.treeRoot) {
+      this.line(depth, 'No tree returned');
+      return;
+    }
+    await this.node(response.treeRoot, depth);
+  }
+
+  private line(depth: number, text: string) {
+    this.lines.push(`${'  '.repeat(depth)}${text}`);
+  }
+
+  private async node(
+    tree: PermissionRelationshipTree,
+    depth: number
+  ): Promise<void> {
+    const label = tree.expandedObject
+      ? `${tree.expandedObject.objectType}:${tree.expandedObject.objectId}#${
+          tree.expandedRelation ?? ''
+        }`
+      : (tree.expandedRelation ?? '(unnamed)');
+
+    if (tree.intermediate) {
+      const { operation, children } = tree.intermediate;
+      if (depth >= this.options.maxDepth && children.length > 0) {
+        this.line(depth, `${label}: ${operationLabels[operation]} ...`);
+        this.truncated = true;
+        return;
+      }
+      this.line(depth, `${label}: ${operationLabels[operation]}`);
+      for (const child of children) {
+        await this.node(child, depth + 1);
+      }
+      return;
+    }
+
+    const subjects = tree.leaf?.subjects ?? [];
+    if (subjects.length === 0) {
+      this.line(depth, `${label}: no subjects`);
+      return;
+    }
+    if (depth >= this.options.maxDepth) {
+      this.line(depth, `${label}: ${subjects.length} subject(s) ...`);
+      this.truncated = true;
+      return;
+    }
+
+    this.line(depth, `${label}:`);
+    for (const subject of subjects) {
+      const name = subjectToString(subject);
+      this.line(depth + 1, name);
+      const relation = subject.optionalRelation;
+      if (
+        this.options.expandUsersets &&
+        relation &&
+        relation !== '...' &&
+        subject.object.objectId !== '*'
+      ) {
+        await this.userset(subject.object, relation, name, depth + 2);
+      }
+    }
+  }
+
+  private async userset(
+    object: ObjectReference,
+    relation: string,
+    name: string,
+    depth: number
+  ): Promise<void> {
+    if (this.expanded.has(name)) {
+      this.line(depth, '(expanded above)');
+      return;
+    }
+    if (depth > this.options.maxDepth) {
+      this.line(depth, '...');
+      this.truncated = true;
+      return;
+    }
+    if (this.usersetsExpanded >= maxUsersetExpansions) {
+      this.line(
+        depth,
+        `(not expanded: at most ${maxUsersetExpansions} usersets are expanded per call)`
+      );
+      this.truncated = true;
+      return;
+    }
+
+    this.usersetsExpanded++;
+    try {
+      await this.expand(object, relation, depth);
+    } catch (error) {
+      this.line(
+        depth,
+        `(could not expand: ${describeError(error).replace(/\n/g, ' ')})`
+      );
+    }
+  }
+}
+
+// Expand a permission on a resource into its tree of relations and subjects
+export async function expandPermission(
+  client: SpiceDBClient,
+  resource: ObjectReference,
+  permission: string,
+  options: ExpandOptions
+): Promise<ExpandedPermission> {
+  const renderer = new TreeRenderer(client, options);
+  await renderer.expand(resource, permission, 0);
+
+  return {
+    text: renderer.text,
+    expandedAt: renderer.expandedAt,
+    usersetsExpanded: renderer.usersetsExpanded,
+    truncated: renderer.truncated,
+  };
+}
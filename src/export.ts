@@ -0,0 +1,230 @@
+// Export the schema and relationships as a validation file, the YAML read by
+// `zed validate` and the Playground, or the relationships alone as CSV or JSON lines
+import { Consistency, Relationship } from './api-types.js';
+import { SpiceDBClient, collectResults } from './spicedb-client.js';
+import { parseSchema } from './schema-parser.js';
+
+export type ExportFormat = 'yaml' | 'csv' | 'jsonl';
+
+export const exportMimeTypes: Record<ExportFormat, string> = {
+  yaml: 'application/yaml',
+  csv: 'text/csv',
+  jsonl: 'application/jsonl',
+};
+
+export interface ExportOptions {
+  format: ExportFormat;
+  // Only export relationships whose resource has one of these types; all
+  // definitions in the schema when left out
+  resourceTypes?: string[];
+  // Replace object IDs with placeholders that are consistent within the export
+  redactIds?: boolean;
+  // Stop after this many relationships
+  maxRelationships: number;
+  signal?: AbortSignal;
+}
+
+export interface Snapshot {
+  text: string;
+  resourceTypes: string[];
+  relationshipCount: number;
+  // Whether relationships were left out because maxRelationships was reached
+  truncated: boolean;
+  // ZedToken of the revision everything was read at, when SpiceDB reports it
+  readAt?: string;
+}
+
+// Maps object IDs to placeholders, so the same object gets the same
+// placeholder wherever it appears. Wildcards are kept, since they carry no data.
+class IdRedactor {
+  private ids = new Map<string, string>();
+
+  public redact(objectType: string, objectId: string): string {
+    if (objectId === '*') {
+      return objectId;
+    }
+    const key = `${objectType}:${objectId}`;
+    let placeholder = this.ids.get(key);
+    if (!placeholder) {
+      placeholder = `redacted_${this.ids.size + 1}`;
+      this.ids.set(key, placeholder);
+    }
+    return placeholder;
+  }
+
+  public relationship(rel: Relationship): Relationship {
+    return {
+      ...rel,
+      resource: {
+        objectType: rel.resource.objectType,
+        objectId: this.redact(rel.resource.objectType, rel.resource.objectId),
+      },
+      subject: {
+        ...rel.subject,
+        object: {
+          objectType: rel.subject.object.objectType,
+          objectId: this.redact(
+            rel.subject.object.objectType,
+            rel.subject.object.objectId
+          ),
+        },
+      },
+    };
+  }
+}
+
+// Indent text as the body of a YAML block scalar
+function yamlBlock(text: string): string {
+  // An indentation indicator is needed when the first line starts with a space
+  const firstLine = text.split('\n').find((line) => line.length > 0);
+  const indicator = firstLine && /^[ \t]/.test(firstLine) ? '2' : '';
+  const body = text
+    .split('\n')
+    .map((line) => (line ? `  ${line}` : ''))
+    .join('\n');
+  return `|${indicator}-\n${body}`;
+}
+
+function renderYaml(
+  client: SpiceDBClient,
+  schemaText: string,
+  relationships: Relationship[],
+  comments: string[]
+): string {
+  const header = comments.map((comment) => `# ${comment}\n`).join('');
+  const lines = relationships
+    .map((rel) => client.relationshipToString(rel))
+    .join('\n');
+  return `${header}schema: ${yamlBlock(
+    schemaText.trimEnd()
+  )}\nrelationships: ${yamlBlock(lines)}\n`;
+}
+
+function csvField(value: string | undefined): string {
+  if (value === undefined) {
+    return '';
+  }
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function renderCsv(relationships: Relationship[]): string {
+  const rows = [
+    'resource_type,resource_id,relation,subject_type,subject_id,subject_relation,caveat_name,caveat_context,expires_at',
+  ];
+  for (const rel of relationships) {
+    const context = rel.optionalCaveat?.context;
+    rows.push(
+      [
+        rel.resource.objectType,
+        rel.resource.objectId,
+        rel.relation,
+        rel.subject.object.objectType,
+        rel.subject.object.objectId,
+        rel.subject.optionalRelation,
+        rel.optionalCaveat?.caveatName,
+        context && Object.keys(context).length > 0
+          ? JSON.stringify(context)
+          : undefined,
+        rel.optionalExpiresAt,
+      ]
+        .map(csvField)
+        .join(',')
+    );
+  }
+  return `${rows.join('\n')}\n`;
+}
+
+function renderJsonLines(relationships: Relationship[]): string {
+  return relationships.map((rel) => `${JSON.stringify(rel)}\n`).join('');
+}
+
+// Read the schema and the relationships of every (or each selected) resource
+// type and render them in the requested format. Everything is read at the
+// revision the schema was read at, so the export is a consistent snapshot.
+export async function exportSnapshot(
+  client: SpiceDBClient,
+  options: ExportOptions
+): Promise<Snapshot> {
+  const schema = await client.readSchema({}, { signal: options.signal });
+  let readAt = schema.readAt?.token;
+
+  const definitions = parseSchema(schema.schemaText).definitions.map(
+    (definition) => definition.name
+  );
+  const resourceTypes = options.resourceTypes?.length
+    ? options.resourceTypes
+    : definitions;
+  const unknown = resourceTypes.filter((type) => !definitions.includes(type));
+  if (unknown.length > 0) {
+    throw new Error(
+      `The schema has no definition for resource type(s): ${unknown.join(', ')}`
+    );
+  }
+
+  const relationships: Relationship[] = [];
+  let truncated = false;
+  for (const resourceType of resourceTypes) {
+    const remaining = options.maxRelationships - relationships.length;
+    if (remaining <= 0) {
+      truncated = true;
+      break;
+    }
+
+    // Pin the reads to one revision, taken from the first result if the
+    // schema response didn't report one
+    const consistency: Consistency = readAt
+      ? client.atExactSnapshot(readAt)
+      : client.fullConsistency();
+    const page = await collectResults(
+      client.readRelationships(
+        { consistency, relationshipFilter: { resourceType } },
+        { maxResults: remaining + 1, signal: options.signal }
+      ),
+      remaining
+    );
+
+    readAt ??= page.results[0]?.readAt?.token;
+    relationships.push(...page.results.map((result) => result.relationship));
+    if (page.truncated) {
+      truncated = true;
+      break;
+    }
+  }
+
+  const redactor = options.redactIds ? new IdRedactor() : undefined;
+  const exported = redactor
+    ? relationships.map((rel) => redactor.relationship(rel))
+    : relationships;
+
+  let text: string;
+  switch (options.format) {
+    case 'csv':
+      text = renderCsv(exported);
+      break;
+    case 'jsonl':
+      text = renderJsonLines(exported);
+      break;
+    default: {
+      const comments = [
+        `Exported from SpiceDB${readAt ? ` at ZedToken ${readAt}` : ''}`,
+      ];
+      if (redactor) {
+        comments.push('Object IDs are redacted');
+      }
+      if (truncated) {
+        comments.push(
+          `Incomplete: stopped after ${options.maxRelationships} relationships`
+        );
+      }
+      text = renderYaml(client, schema.schemaText, exported, comments);
+    }
+  }
+
+  return {
+    text,
+    resourceTypes,
+    relationshipCount: exported.length,
+    truncated,
+    readAt,
+  };
+}
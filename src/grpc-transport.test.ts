@@ -0,0 +1,198 @@
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as grpc from '@grpc/grpc-js';
+import { v1 } from '@authzed/authzed-node';
+import { GrpcTransport, grpcServiceDefinition } from './grpc-transport.js';
+import { SpiceDBError, grpcCode } from './errors.js';
+
+function varint(value: number): Buffer {
+  const bytes: number[] = [];
+  while (value >= 0x80) {
+    bytes.push((value & 0x7f) | 0x80);
+    value >>>= 7;
+  }
+  bytes.push(value);
+  return Buffer.from(bytes);
+}
+
+// Encode a length-delimited protobuf field
+function field(number: number, value: Buffer | string): Buffer {
+  const bytes = typeof value === 'string' ? Buffer.from(value) : value;
+  return Buffer.concat([
+    varint((number << 3) | 2),
+    varint(bytes.length),
+    bytes,
+  ]);
+}
+
+// A google.rpc.Status with one google.rpc.ErrorInfo detail, as SpiceDB sends
+// in grpc-status-details-bin
+function statusWithErrorInfo(
+  message: string,
+  reason: string,
+  metadata: Record<string, string>
+): Buffer {
+  const info = Buffer.concat([
+    field(1, reason),
+    field(2, 'authzed.com'),
+    ...Object.entries(metadata).map(([key, value]) =>
+      field(3, Buffer.concat([field(1, key), field(2, value)]))
+    ),
+  ]);
+  const any = Buffer.concat([
+    field(1, 'type.googleapis.com/google.rpc.ErrorInfo'),
+    field(2, info),
+  ]);
+  return Buffer.concat([
+    Buffer.concat([varint(1 << 3), varint(grpcCode.FAILED_PRECONDITION)]),
+    field(2, message),
+    field(3, any),
+  ]);
+}
+
+const authorization: string[] = [];
+const server = new grpc.Server();
+server.addService(grpcServiceDefinition(v1.SchemaService), {
+  readSchema(call: grpc.ServerUnaryCall<any, any>, callback: any) {
+    authorization.push(`${call.metadata.get('authorization')[0]}`);
+    callback(
+      null,
+      v1.ReadSchemaResponse.fromJson({
+        schemaText: 'definition user {}',
+        readAt: { token: 'read-token' },
+      })
+    );
+  },
+});
+server.addService(grpcServiceDefinition(v1.PermissionsService), {
+  checkPermission(call: grpc.ServerUnaryCall<any, any>, callback: any) {
+    const metadata = new grpc.Metadata();
+    metadata.set(
+      'grpc-status-details-bin',
+      statusWithErrorInfo(
+        'precondition failed',
+        'ERROR_REASON_WRITE_OR_DELETE_PRECONDITION_FAILURE',
+        { definition_name: call.request.resource.objectType }
+      )
+    );
+    callback({
+      code: grpc.status.FAILED_PRECONDITION,
+      details: 'precondition failed',
+      metadata,
+    });
+  },
+  readRelationships(call: grpc.ServerWritableStream<any, any>) {
+    for (const id of ['alice', 'bob']) {
+      call.write(
+        v1.ReadRelationshipsResponse.fromJson({
+          readAt: { token: 'read-token' },
+          relationship: {
+            resource: { objectType: 'document', objectId: 'readme' },
+            relation: 'viewer',
+            subject: { object: { objectType: 'user', objectId: id } },
+          },
+          afterResultCursor: { token: id },
+        })
+      );
+    }
+    call.end();
+  },
+  lookupResources(call: grpc.ServerWritableStream<any, any>) {
+    call.emit('error', {
+      code: grpc.status.FAILED_PRECONDITION,
+      details: 'object definition `missing` not found',
+    });
+  },
+});
+
+let transport: GrpcTransport;
+
+before(async () => {
+  const port = await new Promise<number>((resolve, reject) =>
+    server.bindAsync(
+      '127.0.0.1:0',
+      grpc.ServerCredentials.createInsecure(),
+      (error, port) => (error ? reject(error) : resolve(port))
+    )
+  );
+  transport = new GrpcTransport(`127.0.0.1:${port}`, 'secret', false);
+});
+
+after(() => {
+  server.forceShutdown();
+});
+
+test('request returns unary responses as gateway JSON', async () => {
+  const response = await transport.request('/v1/schema/read', {});
+
+  assert.deepEqual(response, {
+    schemaText: 'definition user {}',
+    readAt: { token: 'read-token' },
+  });
+  assert.deepEqual(authorization, ['Bearer secret']);
+});
+
+test('stream wraps each streamed message like the gateway', async () => {
+  const controller = new AbortController();
+  const messages = [];
+  for await (const message of transport.stream(
+    '/v1/relationships/read',
+    { relationshipFilter: { resourceType: 'document' } },
+    controller.signal
+  )) {
+    messages.push(message);
+  }
+
+  assert.deepEqual(
+    messages.map((message) => [
+      message.result.relationship.subject.object.objectId,
+      message.result.afterResultCursor.token,
+    ]),
+    [
+      ['alice', 'alice'],
+      ['bob', 'bob'],
+    ]
+  );
+});
+
+test('errors carry the decoded ErrorInfo reason and metadata', async () => {
+  const error = await transport
+    .request('/v1/permissions/check', {
+      resource: { objectType: 'document', objectId: 'readme' },
+      permission: 'view',
+      subject: { object: { objectType: 'user', objectId: 'alice' } },
+    })
+    .catch((error) => error);
+
+  assert.ok(error instanceof SpiceDBError);
+  assert.equal(error.code, grpcCode.FAILED_PRECONDITION);
+  assert.equal(error.statusMessage, 'precondition failed');
+  assert.equal(
+    error.reason,
+    'ERROR_REASON_WRITE_OR_DELETE_PRECONDITION_FAILURE'
+  );
+  assert.deepEqual(error.metadata, { definition_name: 'document' });
+});
+
+test('stream errors are raised as SpiceDB errors', async () => {
+  const controller = new AbortController();
+  await assert.rejects(
+    async () => {
+      for await (const _ of transport.stream(
+        '/v1/permissions/resources',
+        {
+          resourceObjectType: 'missing',
+          permission: 'view',
+          subject: { object: { objectType: 'user', objectId: 'alice' } },
+        },
+        controller.signal
+      )) {
+        // No results are expected
+      }
+    },
+    (error) =>
+      error instanceof SpiceDBError &&
+      error.code === grpcCode.FAILED_PRECONDITION &&
+      error.statusMessage === 'object definition `missing` not found'
+  );
+});
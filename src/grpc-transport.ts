@@ -0,0 +1,282 @@
+import * as grpc from '@grpc/grpc-js';
+import { v1 } from '@authzed/authzed-node';
+import { SpiceDBTransport } from './transport.js';
+import { SpiceDBError } from './errors.js';
+
+type ServiceType = typeof v1.PermissionsService;
+type MethodInfo = ServiceType['methods'][number];
+
+// The RPC behind each HTTP gateway path
+const routes: Record<string, { service: ServiceType; method: string }> = {
+  '/v1/schema/read': { service: v1.SchemaService, method: 'ReadSchema' },
+  '/v1/schema/write': { service: v1.SchemaService, method: 'WriteSchema' },
+  '/v1/relationships/read': {
+    service: v1.PermissionsService,
+    method: 'ReadRelationships',
+  },
+  '/v1/relationships/write': {
+    service: v1.PermissionsService,
+    method: 'WriteRelationships',
+  },
+  '/v1/relationships/delete': {
+    service: v1.PermissionsService,
+    method: 'DeleteRelationships',
+  },
+  '/v1/permissions/check': {
+    service: v1.PermissionsService,
+    method: 'CheckPermission',
+  },
+  '/v1/permissions/checkbulk': {
+    service: v1.PermissionsService,
+    method: 'CheckBulkPermissions',
+  },
+  '/v1/permissions/expand': {
+    service: v1.PermissionsService,
+    method: 'ExpandPermissionTree',
+  },
+  '/v1/permissions/resources': {
+    service: v1.PermissionsService,
+    method: 'LookupResources',
+  },
+  '/v1/permissions/subjects': {
+    service: v1.PermissionsService,
+    method: 'LookupSubjects',
+  },
+  '/v1/watch': { service: v1.WatchService, method: 'Watch' },
+};
+
+// Build a grpc-js service definition from a generated service type, which can
+// be passed to grpc.Server#addService to run an in-process stand-in for SpiceDB
+export function grpcServiceDefinition(
+  service: ServiceType
+): grpc.ServiceDefinition {
+  const definition: Record<string, grpc.MethodDefinition<any, any>> = {};
+  for (const method of service.methods) {
+    definition[method.localName] = {
+      path: `/${service.typeName}/${method.name}`,
+      originalName: method.localName,
+      requestStream: !!method.clientStreaming,
+      responseStream: !!method.serverStreaming,
+      requestSerialize: (value: any) => Buffer.from(method.I.toBinary(value)),
+      requestDeserialize: (bytes: Buffer) => method.I.fromBinary(bytes),
+      responseSerialize: (value: any) => Buffer.from(method.O.toBinary(value)),
+      responseDeserialize: (bytes: Buffer) => method.O.fromBinary(bytes),
+    };
+  }
+  return definition;
+}
+
+// Like the HTTP gateway, ignore request fields the API doesn't define
+const jsonReadOptions = { ignoreUnknownFields: true };
+
+// Split an encoded protobuf message into its fields. Only varint and
+// length-delimited fields are returned, which is all the status messages below use.
+function protoFields(bytes: Buffer): [number, number | Buffer][] {
+  const fields: [number, number | Buffer][] = [];
+  let offset = 0;
+  const varint = () => {
+    let value = 0;
+    let shift = 0;
+    let byte;
+    do {
+      byte = bytes[offset++];
+      value += (byte & 0x7f) * 2 ** shift;
+      shift += 7;
+    } while (byte & 0x80 && offset < bytes.length);
+    return value;
+  };
+
+  while (offset < bytes.length) {
+    const key = varint();
+    const field = Math.floor(key / 8);
+    const wireType = key % 8;
+    if (wireType === 0) {
+      fields.push([field, varint()]);
+    } else if (wireType === 2) {
+      const length = varint();
+      fields.push([field, bytes.subarray(offset, offset + length)]);
+      offset += length;
+    } else {
+      break;
+    }
+  }
+  return fields;
+}
+
+function protoStrings(bytes: Buffer): Map<number, string> {
+  const strings = new Map<number, string>();
+  for (const [field, value] of protoFields(bytes)) {
+    if (Buffer.isBuffer(value)) {
+      strings.set(field, value.toString('utf8'));
+    }
+  }
+  return strings;
+}
+
+// Decode the status details SpiceDB attaches as grpc-status-details-bin (a
+// google.rpc.Status) into the JSON form the HTTP gateway returns. Only
+// google.rpc.ErrorInfo details, which carry the ERROR_REASON_*, are decoded.
+function statusDetails(metadata?: grpc.Metadata): any[] {
+  const [status] = metadata?.get('grpc-status-details-bin') ?? [];
+  if (!Buffer.isBuffer(status)) {
+    return [];
+  }
+
+  const details: any[] = [];
+  for (const [field, any] of protoFields(status)) {
+    // Status.details holds google.protobuf.Any messages
+    if (field !== 3 || !Buffer.isBuffer(any)) {
+      continue;
+    }
+
+    let typeUrl = '';
+    let value: Buffer | undefined;
+    for (const [anyField, anyValue] of protoFields(any)) {
+      if (anyField === 1 && Buffer.isBuffer(anyValue)) {
+        typeUrl = anyValue.toString('utf8');
+      } else if (anyField === 2 && Buffer.isBuffer(anyValue)) {
+        value = anyValue;
+      }
+    }
+
+    if (!typeUrl.endsWith('/google.rpc.ErrorInfo') || !value) {
+      details.push({ '@type': typeUrl });
+      continue;
+    }
+
+    const info: any = { '@type': typeUrl, metadata: {} };
+    for (const [infoField, infoValue] of protoFields(value)) {
+      if (!Buffer.isBuffer(infoValue)) {
+        continue;
+      }
+      if (infoField === 1) {
+        info.reason = infoValue.toString('utf8');
+      } else if (infoField === 2) {
+        info.domain = infoValue.toString('utf8');
+      } else if (infoField === 3) {
+        // A map<string, string> entry
+        const entry = protoStrings(infoValue);
+        info.metadata[entry.get(1) ?? ''] = entry.get(2) ?? '';
+      }
+    }
+    details.push(info);
+  }
+  return details;
+}
+
+// Describe a failed call the same way the HTTP gateway does
+function toSpiceDBError(error: grpc.ServiceError): SpiceDBError {
+  return new SpiceDBError({
+    code: error.code,
+    message: error.details,
+    details: statusDetails(error.metadata),
+  });
+}
+
+// Transport that calls SpiceDB's native gRPC API. Request bodies are parsed
+// from, and responses converted to, the JSON the HTTP gateway uses, so callers
+// see the same messages on either transport.
+export class GrpcTransport implements SpiceDBTransport {
+  public readonly name = 'grpc';
+  public readonly target: string;
+  public readonly tls: boolean;
+  private client: grpc.Client;
+
+  constructor(
+    endpoint: string,
+    private apiKey: string,
+    useTLS: boolean
+  ) {
+    // grpc-js takes host:port, so any URL scheme is dropped
+    this.target = endpoint.replace(/^[a-z]+:\/\//i, '');
+    this.tls = useTLS || endpoint.startsWith('https://');
+    this.client = new grpc.Client(
+      this.target,
+      this.tls
+        ? grpc.credentials.createSsl()
+        : grpc.credentials.createInsecure()
+    );
+  }
+
+  private metadata(): grpc.Metadata {
+    const metadata = new grpc.Metadata();
+    if (this.apiKey) {
+      metadata.set('authorization', `Bearer ${this.apiKey}`);
+    }
+    return metadata;
+  }
+
+  private route(path: string): { rpcPath: string; method: MethodInfo } {
+    const route = routes[path];
+    const method = route?.service.methods.find(
+      (candidate) => candidate.name === route.method
+    );
+    if (!route || !method) {
+      throw new Error(`No gRPC method for ${path}`);
+    }
+    return { rpcPath: `/${route.service.typeName}/${method.name}`, method };
+  }
+
+  async request(path: string, body: any = {}, signal?: AbortSignal) {
+    const { rpcPath, method } = this.route(path);
+    if (method.serverStreaming) {
+      throw new Error(`${path} is a streaming call`);
+    }
+
+    const response = await new Promise<any>((resolve, reject) => {
+      const call = this.client.makeUnaryRequest(
+        rpcPath,
+        (value: any) => Buffer.from(method.I.toBinary(value)),
+        (bytes: Buffer) => method.O.fromBinary(bytes),
+        method.I.fromJson(body, jsonReadOptions),
+        this.metadata(),
+        {},
+        (error, value) => {
+          if (error) {
+            console.error(`Error making request to ${path}:`, error.message);
+            reject(toSpiceDBError(error));
+          } else {
+            resolve(value);
+          }
+        }
+      );
+      if (signal?.aborted) {
+        call.cancel();
+      }
+      signal?.addEventListener('abort', () => call.cancel(), { once: true });
+    });
+
+    return method.O.toJson(response);
+  }
+
+  async *stream(
+    path: string,
+    body: any,
+    signal: AbortSignal
+  ): AsyncGenerator<any> {
+    const { rpcPath, method } = this.route(path);
+
+    const call = this.client.makeServerStreamRequest(
+      rpcPath,
+      (value: any) => Buffer.from(method.I.toBinary(value)),
+      (bytes: Buffer) => method.O.fromBinary(bytes),
+      method.I.fromJson(body, jsonReadOptions),
+      this.metadata(),
+      {}
+    );
+    const onAbort = () => call.cancel();
+    signal.addEventListener('abort', onAbort);
+
+    try {
+      for await (const message of call) {
+        // Wrap each message the way the HTTP gateway does
+        yield { result: method.O.toJson(message) };
+      }
+    } catch (error) {
+      throw toSpiceDBError(error as grpc.ServiceError);
+    } finally {
+      signal.removeEventListener('abort', onAbort);
+      call.cancel();
+    }
+  }
+}
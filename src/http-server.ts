@@ -0,0 +1,365 @@
+// Streamable HTTP (and legacy SSE) transport, so one shared server can serve many MCP clients
+import {
+  IncomingMessage,
+  Server,
+  ServerResponse,
+  createServer as createHttpServer,
+} from 'node:http';
+import { randomUUID, timingSafeEqual } from 'node:crypto';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+
+export type TransportMode = 'stdio' | 'http';
+
+export interface HttpServerOptions {
+  host: string;
+  port: number;
+  // Bearer tokens accepted from MCP clients
+  authTokens: string[];
+  // Sessions without a request for this long are closed; 0 keeps them open
+  sessionIdleTimeoutMs: number;
+}
+
+// An MCP session, bound to the bearer token that created it
+interface Session {
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  token: string;
+  // When the session last received a request, in milliseconds since the epoch
+  lastActive: number;
+}
+
+// Largest JSON-RPC request body accepted, in bytes
+const maxBodySize = 4 * 1024 * 1024;
+
+// Longest interval between checks for idle sessions
+const maxIdleCheckIntervalMs = 60 * 1000;
+
+// Error raised when a request body is larger than maxBodySize
+class RequestBodyTooLargeError extends Error {
+  constructor() {
+    super(`Request body exceeds ${maxBodySize} bytes`);
+    this.name = 'RequestBodyTooLargeError';
+  }
+}
+
+// Read a command line flag given as "--name value" or "--name=value"
+function getArg(argv: string[], name: string): string | undefined {
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === `--${name}`) {
+      return argv[i + 1];
+    }
+    if (argv[i].startsWith(`--${name}=`)) {
+      return argv[i].slice(name.length + 3);
+    }
+  }
+  return undefined;
+}
+
+// Read the transport mode from --transport or MCP_TRANSPORT, defaulting to stdio
+export function getTransportMode(argv: string[]): TransportMode {
+  const mode =
+    getArg(argv, 'transport') || process.env.MCP_TRANSPORT || 'stdio';
+  if (mode !== 'stdio' && mode !== 'http') {
+    throw new Error(`Unsupported transport: ${mode} (expected stdio or http)`);
+  }
+  return mode;
+}
+
+// Read the HTTP server options from the command line and environment
+export function loadHttpServerOptions(argv: string[]): HttpServerOptions {
+  const port = parseInt(
+    getArg(argv, 'port') || process.env.MCP_PORT || '3000',
+    10
+  );
+  if (isNaN(port)) {
+    throw new Error('The HTTP port must be a number');
+  }
+
+  const sessionIdleTimeoutMs = parseInt(
+    process.env.MCP_SESSION_IDLE_TIMEOUT_MS || '1800000',
+    10
+  );
+  if (isNaN(sessionIdleTimeoutMs) || sessionIdleTimeoutMs < 0) {
+    throw new Error(
+      'MCP_SESSION_IDLE_TIMEOUT_MS must be a non-negative number of milliseconds'
+    );
+  }
+
+  const authTokens = (process.env.MCP_AUTH_TOKENS || '')
+    .split(',')
+    .map((token) => token.trim())
+    .filter((token) => token !== '');
+  if (authTokens.length === 0) {
+    throw new Error(
+      'MCP_AUTH_TOKENS must list at least one bearer token when using the HTTP transport'
+    );
+  }
+
+  return {
+    host: getArg(argv, 'host') || process.env.MCP_HOST || '127.0.0.1',
+    port,
+    authTokens,
+    sessionIdleTimeoutMs,
+  };
+}
+
+// Find the configured token matching the request's bearer token, comparing in constant time
+function authenticate(
+  req: IncomingMessage,
+  authTokens: string[]
+): string | undefined {
+  const header = req.headers.authorization || '';
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  if (!match) {
+    return undefined;
+  }
+
+  const presented = Buffer.from(match[1].trim());
+  return authTokens.find((token) => {
+    const expected = Buffer.from(token);
+    return (
+      expected.length === presented.length &&
+      timingSafeEqual(expected, presented)
+    );
+  });
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > maxBodySize) {
+      throw new RequestBodyTooLargeError();
+    }
+    chunks.push(chunk as Buffer);
+  }
+  return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+// JSON-RPC error response for requests that can't be routed to a session
+function sendJsonRpcError(
+  res: ServerResponse,
+  status: number,
+  message: string
+) {
+  sendJson(res, status, {
+    jsonrpc: '2.0',
+    error: { code: -32000, message },
+    id: null,
+  });
+}
+
+// Start the HTTP server. Each MCP session gets its own McpServer from
+// createMcpServer; onSessionClosed lets per-session state be released.
+export async function startHttpServer(
+  options: HttpServerOptions,
+  createMcpServer: () => McpServer,
+  onSessionClosed: (sessionId: string) => void
+): Promise<Server> {
+  const sessions = new Map<string, Session>();
+
+  const closeSession = (sessionId: string) => {
+    if (sessions.delete(sessionId)) {
+      console.error(`MCP session closed: ${sessionId}`);
+      onSessionClosed(sessionId);
+    }
+  };
+
+  // Close a session's transport and release its state. Closing the transport
+  // normally ends the session through its close handler; ending it here too
+  // covers transports that don't report it.
+  const expireSession = async (sessionId: string, session: Session) => {
+    console.error(`MCP session idle, closing: ${sessionId}`);
+    try {
+      await session.transport.close();
+    } catch (error) {
+      console.error(`Error closing MCP session ${sessionId}:`, error);
+    }
+    closeSession(sessionId);
+  };
+
+  // Look up a session, making sure it is used with the token that created
+  // it, and mark it active
+  const findSession = (
+    sessionId: string | undefined,
+    token: string
+  ): Session | undefined => {
+    const session = sessionId ? sessions.get(sessionId) : undefined;
+    if (!session || session.token !== token) {
+      return undefined;
+    }
+    session.lastActive = Date.now();
+    return session;
+  };
+
+  // Streamable HTTP: POST carries requests, GET opens a notification stream, DELETE ends the session
+  const handleStreamableHttp = async (
+    req: IncomingMessage,
+    res: ServerResponse,
+    token: string
+  ) => {
+    const sessionId = req.headers['mcp-session-id'] as string | undefined;
+
+    if (req.method !== 'POST') {
+      const session = findSession(sessionId, token);
+      if (
+        !session ||
+        !(session.transport instanceof StreamableHTTPServerTransport)
+      ) {
+        sendJsonRpcError(res, 400, 'Bad Request: No valid session ID provided');
+        return;
+      }
+      await session.transport.handleRequest(req, res);
+      return;
+    }
+
+    const body = await readJsonBody(req);
+    const session = findSession(sessionId, token);
+    if (session && session.transport instanceof StreamableHTTPServerTransport) {
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (sessionId || !isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, 'Bad Request: No valid session ID provided');
+      return;
+    }
+
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (newSessionId) => {
+        console.error(`MCP session started: ${newSessionId}`);
+        sessions.set(newSessionId, {
+          transport,
+          token,
+          lastActive: Date.now(),
+        });
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        closeSession(transport.sessionId);
+      }
+    };
+
+    await createMcpServer().connect(transport);
+    await transport.handleRequest(req, res, body);
+  };
+
+  // Legacy SSE: GET /sse opens the event stream, POST /messages?sessionId= carries requests
+  const handleSseStream = async (res: ServerResponse, token: string) => {
+    const transport = new SSEServerTransport('/messages', res);
+    sessions.set(transport.sessionId, {
+      transport,
+      token,
+      lastActive: Date.now(),
+    });
+    console.error(`MCP SSE session started: ${transport.sessionId}`);
+    res.on('close', () => closeSession(transport.sessionId));
+
+    await createMcpServer().connect(transport);
+  };
+
+  const handleSseMessage = async (
+    req: IncomingMessage,
+    res: ServerResponse,
+    url: URL,
+    token: string
+  ) => {
+    const session = findSession(
+      url.searchParams.get('sessionId') || undefined,
+      token
+    );
+    if (!session || !(session.transport instanceof SSEServerTransport)) {
+      sendJsonRpcError(res, 400, 'Bad Request: No valid session ID provided');
+      return;
+    }
+    await session.transport.handlePostMessage(
+      req,
+      res,
+      await readJsonBody(req)
+    );
+  };
+
+  const httpServer = createHttpServer(async (req, res) => {
+    const url = new URL(
+      req.url || '/',
+      `http://${req.headers.host || 'localhost'}`
+    );
+
+    try {
+      // The health endpoint is unauthenticated so load balancers can probe it
+      if (url.pathname === '/health' && req.method === 'GET') {
+        sendJson(res, 200, { status: 'ok', sessions: sessions.size });
+        return;
+      }
+
+      const token = authenticate(req, options.authTokens);
+      if (!token) {
+        res.setHeader('WWW-Authenticate', 'Bearer');
+        sendJsonRpcError(
+          res,
+          401,
+          'Unauthorized: a valid bearer token is required'
+        );
+        return;
+      }
+
+      if (url.pathname === '/mcp') {
+        await handleStreamableHttp(req, res, token);
+      } else if (url.pathname === '/sse' && req.method === 'GET') {
+        await handleSseStream(res, token);
+      } else if (url.pathname === '/messages' && req.method === 'POST') {
+        await handleSseMessage(req, res, url, token);
+      } else {
+        sendJson(res, 404, { error: 'Not found' });
+      }
+    } catch (error) {
+      console.error(`Error handling ${req.method} ${url.pathname}:`, error);
+      if (res.headersSent) {
+        return;
+      }
+      if (error instanceof RequestBodyTooLargeError) {
+        // The rest of the body isn't read, so don't keep the connection open
+        res.setHeader('Connection', 'close');
+        sendJsonRpcError(res, 413, error.message);
+      } else if (error instanceof SyntaxError) {
+        sendJsonRpcError(res, 400, 'Parse error');
+      } else {
+        sendJsonRpcError(res, 500, 'Internal server error');
+      }
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => resolve());
+  });
+
+  // Close sessions whose clients went away without ending them
+  if (options.sessionIdleTimeoutMs > 0) {
+    const idleCheck = setInterval(
+      () => {
+        const idleSince = Date.now() - options.sessionIdleTimeoutMs;
+        for (const [sessionId, session] of sessions) {
+          if (session.lastActive <= idleSince) {
+            void expireSession(sessionId, session);
+          }
+        }
+      },
+      Math.min(options.sessionIdleTimeoutMs, maxIdleCheckIntervalMs)
+    );
+    idleCheck.unref();
+    httpServer.on('close', () => clearInterval(idleCheck));
+  }
+
+  return httpServer;
+}
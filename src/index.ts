@@ -6,7 +6,91 @@ import {
 } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { z } from 'zod';
-import { SpiceDBClient } from './spicedb-client.js';
+import { SpiceDBClient, getMaxResults } from './spicedb-client.js';
+import {
+  ConsistencyMode,
+  consistencyParams,
+  getDefaultConsistencyMode,
+  resolveConsistency,
+} from './consistency.js';
+import { summarizeSchemaChanges, unifiedDiff } from './schema-diff.js';
+import { exportMimeTypes, exportSnapshot } from './export.js';
+import { parseValidationFile } from './validation-file.js';
+import { runAssertions } from './assertions.js';
+import { expandPermission } from './expand.js';
+import { explainDenial } from './denial.js';
+import {
+  SchemaAST,
+  findDefinition,
+  nodeSource,
+  parseSchema,
+} from './schema-parser.js';
+import {
+  GraphFormat,
+  SchemaGraphOptions,
+  renderSchemaGraph,
+} from './schema-graph.js';
+import {
+  WritePolicyError,
+  describeWritePolicy,
+  enforceBatchedWritePolicy,
+  enforceDeletePolicy,
+  enforceSchemaWritePolicy,
+  enforceWritePolicy,
+  loadWritePolicy,
+} from './write-policy.js';
+import {
+  getTransportMode,
+  loadHttpServerOptions,
+  startHttpServer,
+} from './http-server.js';
+import {
+  InstanceRegistry,
+  SpiceDBInstance,
+  instanceParams,
+  loadInstanceConfigs,
+} from './instances.js';
+import {
+  describePage,
+  maxPageLimit,
+  nextPageHint,
+  paginationParams,
+  readPage,
+} from './pagination.js';
+import { SpiceDBError, describeError, grpcCode } from './errors.js';
+import {
+  CheckBulkPermissionsRequestItem,
+  CheckDebugTrace,
+  DeleteRelationshipsRequest,
+  LookupPermissionship,
+  LookupSubjectsRequest,
+  PartialCaveatInfo,
+  Precondition,
+  Relationship,
+  ResponseValidationError,
+  UpdateOperation,
+  WatchRequest,
+  WriteRelationshipsRequest,
+  WriteSchemaResponse,
+} from './api-types.js';
+import {
+  buildObjectReference,
+  buildRelationship,
+  buildRelationshipFilter,
+  buildSubjectReference,
+} from './builders.js';
+import {
+  ToolOutput,
+  checkPermissionOutput,
+  lookupMissingContext,
+  lookupResourcesOutput,
+  lookupSubjectsOutput,
+  pageInfo,
+  readRelationshipsOutput,
+  readSchemaOutput,
+  schemaOutline,
+  writeRelationshipOutput,
+} from './tool-outputs.js';
 import * as dotenv from 'dotenv';
 
 dotenv.config();
@@ -28,64 +112,111 @@ function logMessage(server: McpServer, level: LogLevel, message: string) {
   console.error(`[${level.toUpperCase()}] ${message}`);
 }
 
-// Initialize SpiceDB client
-const spiceDB = SpiceDBClient.getInstance();
+// Load the policy that restricts writes
+const writePolicy = loadWritePolicy();
+
+// Initialize a SpiceDB client for each configured instance
+const instances = new InstanceRegistry(
+  loadInstanceConfigs(),
+  writePolicy,
+  process.env.SPICEDB_DEFAULT_INSTANCE
+);
+
+// The server-level default consistency
+const defaultConsistencyMode = getDefaultConsistencyMode();
+
+// The most matches a delete dry run reads before stopping
+const maxResults = getMaxResults();
+
+// Levels of the tree expand-permission renders
+const defaultExpandDepth = 10;
+const maxExpandDepth = 50;
+
+// Candidates explain-denial lists
+const defaultDenialCandidates = 10;
+const maxDenialCandidates = 50;
+
+// Failures run-assertions fetches a debug trace for
+const maxAssertionTraces = 20;
+
+// Helper function to pick the consistency for a read made in a session
+function consistencyFor(
+  target: SpiceDBInstance,
+  sessionId: string | undefined,
+  mode?: ConsistencyMode,
+  zedToken?: string
+) {
+  return resolveConsistency(
+    target.client,
+    defaultConsistencyMode,
+    target.zedTokens.get(sessionId),
+    mode,
+    zedToken
+  );
+}
 
-// Helper function to extract object definitions from schema text and create resources
+// Helper function to extract object definitions and caveats from schema text and create resources
 function extractObjectDefinitionsFromSchema(schemaText: string): Array<any> {
   if (!schemaText) return [];
 
-  const objectDefResources = [];
-  const lines = schemaText.split('\n');
-  let currentDef = '';
-  let currentObjectType = '';
-  let insideDefinition = false;
-  let braceCount = 0;
-
-  // Process each line to find object definitions
-  for (const line of lines) {
-    const trimmedLine = line.trim();
-
-    // Check if line starts a definition
-    if (trimmedLine.startsWith('definition ')) {
-      const match = trimmedLine.match(/definition\s+(\w+)\s*{/);
-      if (match) {
-        insideDefinition = true;
-        currentObjectType = match[1];
-        currentDef = line + '\n';
-        braceCount = 1; // Opening brace
-        continue;
-      }
-    }
-
-    // If we're inside a definition, collect the lines
-    if (insideDefinition) {
-      currentDef += line + '\n';
-
-      // Count braces to determine when definition ends
-      braceCount += (line.match(/{/g) || []).length;
-      braceCount -= (line.match(/}/g) || []).length;
+  let ast: SchemaAST;
+  try {
+    ast = parseSchema(schemaText);
+  } catch (error) {
+    console.error('Error parsing schema for definition resources:', error);
+    return [];
+  }
 
-      // If braces are balanced, definition is complete
-      if (braceCount === 0) {
-        objectDefResources.push({
-          uri: `spicedb://definition/${currentObjectType}`,
-          name: `${currentObjectType} Definition`,
-          description: `Object definition for type ${currentObjectType} in the schema`,
-        });
+  const objectDefResources = ast.definitions.map((definition) => ({
+    uri: `spicedb://definition/${encodeURIComponent(definition.name)}`,
+    name: `${definition.name} Definition`,
+    description:
+      definition.comment ||
+      `Object definition for type ${definition.name} in the schema`,
+  }));
+
+  const caveatResources = ast.caveats.map((caveat) => ({
+    uri: `spicedb://caveat/${encodeURIComponent(caveat.name)}`,
+    name: `${caveat.name} Caveat`,
+    description: caveat.comment || `Caveat ${caveat.name} in the schema`,
+  }));
+
+  return [...objectDefResources, ...caveatResources];
+}
 
-        insideDefinition = false;
-        currentDef = '';
-        currentObjectType = '';
-      }
+// Helper function to read the current schema and render it as a diagram.
+// Returns undefined when no schema has been written yet.
+async function renderCurrentSchemaGraph(
+  spiceDB: SpiceDBClient,
+  options: SchemaGraphOptions
+): Promise<string | undefined> {
+  let schemaText: string;
+  try {
+    schemaText = (await spiceDB.readSchema()).schemaText;
+  } catch (error) {
+    if (isSchemaNotFound(error)) {
+      return undefined;
     }
+    throw error;
   }
 
-  return objectDefResources;
+  return renderSchemaGraph(parseSchema(schemaText), options);
 }
 
+const emptySchemaGraphMessage =
+  'No schema has been written to this instance yet, so there is nothing to draw.';
+
+// MIME types for the supported schema graph formats
+const graphMimeTypes: Record<GraphFormat, string> = {
+  mermaid: 'text/vnd.mermaid',
+  dot: 'text/vnd.graphviz',
+};
+
 // Helper function to generate a human-readable explanation of the permission check trace
-function generateTraceExplanation(trace: any, depth: number): string {
+function generateTraceExplanation(
+  trace: CheckDebugTrace | undefined,
+  depth: number
+): string {
   if (!trace) return 'No trace data available';
 
   const indent = '  '.repeat(depth);
@@ -99,15 +230,16 @@ function generateTraceExplanation(trace: any, depth: number): string {
       ? 'permission'
       : 'relation';
 
-  const subjectStr = trace.subject.object
-    ? `${trace.subject.object.objectType}:${trace.subject.object.objectId}${
-        trace.subject.optionalRelation
-          ? '#' + trace.subject.optionalRelation
-          : ''
-      }`
-    : 'unknown subject';
+  const subjectStr = `${trace.subject.object.objectType}:${
+    trace.subject.object.objectId
+  }${
+    trace.subject.optionalRelation ? '#' + trace.subject.optionalRelation : ''
+  }`;
 
-  const result = trace.result.replace('PERMISSIONSHIP_', '');
+  const result = (trace.result ?? 'PERMISSIONSHIP_UNSPECIFIED').replace(
+    'PERMISSIONSHIP_',
+    ''
+  );
 
   // Build the explanation for this level
   explanation += `${indent}Checking if ${subjectStr} has ${permissionType} "${permissionStr}" on ${resourceStr}: ${result}\n`;
@@ -118,11 +250,7 @@ function generateTraceExplanation(trace: any, depth: number): string {
   }
 
   // Process sub-problems recursively
-  if (
-    trace.subProblems &&
-    trace.subProblems.traces &&
-    trace.subProblems.traces.length > 0
-  ) {
+  if (trace.subProblems && trace.subProblems.traces.length > 0) {
     explanation += `${indent}This was determined by:\n`;
 
     for (const subTrace of trace.subProblems.traces) {
@@ -133,7 +261,328 @@ function generateTraceExplanation(trace: any, depth: number): string {
   return explanation;
 }
 
-async function main() {
+// Helper function to convert a SpiceDB permissionship value into a readable result
+function formatPermissionship(permissionship: string): string {
+  switch (permissionship) {
+    case 'PERMISSIONSHIP_NO_PERMISSION':
+      return 'NO PERMISSION';
+    case 'PERMISSIONSHIP_HAS_PERMISSION':
+      return 'HAS PERMISSION';
+    case 'PERMISSIONSHIP_CONDITIONAL_PERMISSION':
+      return 'CONDITIONAL PERMISSION';
+    default:
+      return 'UNKNOWN';
+  }
+}
+
+// Helper function to describe the caveat context still missing for a conditional result
+function describeMissingContext(
+  partialCaveatInfo: PartialCaveatInfo | undefined
+): string {
+  const missing = partialCaveatInfo?.missingRequiredContext || [];
+  return missing.length > 0 ? missing.join(', ') : 'unknown';
+}
+
+// Helper function to annotate a conditional lookup result with its missing caveat context
+function conditionalLookupSuffix(result: {
+  permissionship: LookupPermissionship;
+  partialCaveatInfo?: PartialCaveatInfo;
+}): string {
+  if (
+    result.permissionship !== 'LOOKUP_PERMISSIONSHIP_CONDITIONAL_PERMISSION'
+  ) {
+    return '';
+  }
+  return ` (conditional, missing context: ${describeMissingContext(
+    result.partialCaveatInfo
+  )})`;
+}
+
+// Helper function to map a tool write operation to a SpiceDB update operation
+function toSpiceDBOperation(operation: string): UpdateOperation {
+  switch (operation) {
+    case 'CREATE':
+      return 'OPERATION_CREATE';
+    case 'TOUCH':
+      return 'OPERATION_TOUCH';
+    case 'DELETE':
+      return 'OPERATION_DELETE';
+    default:
+      throw new Error(`Unsupported operation: ${operation}`);
+  }
+}
+
+// Relationships written per batch by import-relationships; SpiceDB accepts at
+// most 1000 updates in one write by default
+const defaultImportBatchSize = 500;
+const maxImportBatchSize = 1000;
+
+// Invalid lines listed in an import error before the rest are only counted
+const maxListedImportErrors = 50;
+
+// A relationship parsed from a line of import text
+interface ImportedRelationship {
+  line: number;
+  relationship: Relationship;
+}
+
+// Helper function to parse newline-separated relationship strings, skipping
+// blank lines and // comments. Every line is parsed so that all the errors can
+// be reported together, each with its line number counted from firstLine.
+function parseRelationshipLines(
+  spiceDB: SpiceDBClient,
+  text: string,
+  firstLine = 1
+): { relationships: ImportedRelationship[]; errors: string[] } {
+  const relationships: ImportedRelationship[] = [];
+  const errors: string[] = [];
+  const seen = new Map<string, number>();
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = firstLine + index;
+    const trimmed = raw.trim();
+    if (!trimmed || trimmed.startsWith('//')) return;
+
+    try {
+      const parsed = spiceDB.parseRelationshipString(trimmed);
+      const relationship = buildRelationship({
+        ...parsed,
+        subjectRelation: parsed.optionalSubjectRelation,
+      });
+
+      // SpiceDB rejects a write that updates the same relationship twice
+      const key = spiceDB.relationshipToString({
+        resource: relationship.resource,
+        relation: relationship.relation,
+        subject: relationship.subject,
+      });
+      const previous = seen.get(key);
+      if (previous !== undefined) {
+        throw new Error(`Duplicate of line ${previous}: ${key}`);
+      }
+      seen.set(key, line);
+
+      relationships.push({ line, relationship });
+    } catch (error) {
+      errors.push(
+        `Line ${line}: ${error instanceof Error ? error.message : error}`
+      );
+    }
+  });
+
+  return { relationships, errors };
+}
+
+// The outcome of writing relationships in batches
+interface BatchedWrite {
+  written: number;
+  batchSize: number;
+  batchCount: number;
+  writtenAt?: string;
+  // The batch that failed, counting from 1; the batches after it weren't tried
+  failure?: { batch: number; error: unknown };
+}
+
+// Helper function to write parsed relationships in atomic batches, stopping at
+// the first batch that fails
+async function writeRelationshipBatches(
+  target: SpiceDBInstance,
+  sessionId: string | undefined,
+  relationships: ImportedRelationship[],
+  operation: 'CREATE' | 'TOUCH',
+  size: number
+): Promise<BatchedWrite> {
+  const result: BatchedWrite = {
+    written: 0,
+    batchSize: size,
+    batchCount: Math.ceil(relationships.length / size),
+  };
+
+  for (let batch = 0; batch < result.batchCount; batch++) {
+    const chunk = relationships.slice(batch * size, (batch + 1) * size);
+    try {
+      const response = await target.client.writeRelationships({
+        updates: chunk.map(({ relationship }) => ({
+          operation: toSpiceDBOperation(operation),
+          relationship,
+        })),
+      });
+
+      // Remember each write so later reads in this session see it
+      result.writtenAt = response.writtenAt?.token;
+      target.zedTokens.record(sessionId, result.writtenAt);
+      result.written += chunk.length;
+    } catch (error) {
+      console.error('Error writing relationship batch:', error);
+      result.failure = { batch: batch + 1, error };
+      break;
+    }
+  }
+
+  return result;
+}
+
+// Helper function to describe a failed batched write: how far it got, which
+// lines were written and why the failed batch was rejected
+function describeBatchFailure(
+  result: BatchedWrite,
+  relationships: ImportedRelationship[]
+): string {
+  const { written, batchSize, batchCount, writtenAt, failure } = result;
+  const first = relationships[written];
+  const last =
+    relationships[Math.min(written + batchSize, relationships.length) - 1];
+  const failedBatch = {
+    rejected: 'that batch and the ones after it were not.',
+    applied:
+      "that batch was written too, but SpiceDB's response to it could not be read; the ones after it were not.",
+    unknown:
+      'the call for that batch ended before SpiceDB answered, so it is unknown whether it was written; the ones after it were not.',
+  }[writeOutcome(failure?.error)];
+
+  return `Imported ${written} of ${relationships.length} relationship(s) before batch ${
+    failure?.batch
+  } of ${batchCount} (lines ${first.line}-${last.line}) failed. ${
+    written > 0
+      ? `The relationships up to line ${
+          relationships[written - 1].line
+        } were written; ${failedBatch}`
+      : `Nothing before it was written; ${failedBatch}`
+  }
+
+${describeError(failure?.error)}${
+    writtenAt ? `\n\nWritten at ZedToken: ${writtenAt}` : ''
+  }`;
+}
+
+// Helper function to detect a write rejected because a precondition didn't hold.
+// SpiceDB reports these with gRPC code FAILED_PRECONDITION.
+function isPreconditionFailure(error: unknown): boolean {
+  return (
+    error instanceof SpiceDBError &&
+    (error.reason === 'ERROR_REASON_WRITE_OR_DELETE_PRECONDITION_FAILURE' ||
+      error.code === grpcCode.FAILED_PRECONDITION)
+  );
+}
+
+// Codes SpiceDB fails a write with before committing any of it
+const uncommittedWriteCodes: number[] = [
+  grpcCode.INVALID_ARGUMENT,
+  grpcCode.NOT_FOUND,
+  grpcCode.ALREADY_EXISTS,
+  grpcCode.PERMISSION_DENIED,
+  grpcCode.FAILED_PRECONDITION,
+  grpcCode.ABORTED,
+  grpcCode.UNIMPLEMENTED,
+  grpcCode.UNAUTHENTICATED,
+];
+
+// Helper function to tell what a failed write left behind: SpiceDB rejected
+// it, it was applied but the response didn't match the API model, or the call
+// ended without an answer (a deadline, a cancel or a dropped connection) and
+// it may or may not have been applied
+function writeOutcome(error: unknown): 'rejected' | 'applied' | 'unknown' {
+  if (error instanceof ResponseValidationError) {
+    return 'applied';
+  }
+  if (
+    error instanceof SpiceDBError &&
+    uncommittedWriteCodes.includes(error.code)
+  ) {
+    return 'rejected';
+  }
+  return 'unknown';
+}
+
+// Helper function to describe a failed schema write, claiming a rejection
+// only when SpiceDB reported one
+function describeSchemaWriteFailure(
+  error: unknown,
+  schemaText: string
+): string {
+  switch (writeOutcome(error)) {
+    case 'rejected':
+      return error instanceof SpiceDBError &&
+        (error.code === grpcCode.INVALID_ARGUMENT ||
+          error.code === grpcCode.FAILED_PRECONDITION)
+        ? `SpiceDB rejected the schema, nothing was written:
+
+${describeSchemaError(error, schemaText)}`
+        : `The schema was not written: ${describeError(error)}`;
+    case 'applied':
+      return `SpiceDB accepted the schema, but its response could not be read: ${describeError(
+        error
+      )}`;
+    case 'unknown':
+      return `The call ended before SpiceDB answered, so it is unknown whether the schema was written; read the schema before retrying.
+
+${describeError(error)}`;
+  }
+}
+
+// Helper function to detect a schema read on an instance with no schema yet.
+// SpiceDB reports this with gRPC code NOT_FOUND.
+function isSchemaNotFound(error: unknown): boolean {
+  return error instanceof SpiceDBError && error.code === grpcCode.NOT_FOUND;
+}
+
+// Helper function to read the schema a write would replace. Before the first
+// schema is written there is none to read, so this returns an empty schema
+async function readCurrentSchema(
+  spiceDB: SpiceDBClient,
+  signal?: AbortSignal
+): Promise<string> {
+  try {
+    const current = await spiceDB.readSchema({}, { signal });
+    return current.schemaText;
+  } catch (error) {
+    if (isSchemaNotFound(error)) {
+      return '';
+    }
+    throw error;
+  }
+}
+
+// Helper function to describe a schema compile error, pointing at the offending line and column
+function describeSchemaError(error: unknown, schemaText: string): string {
+  const message =
+    error instanceof SpiceDBError ? error.statusMessage : `${error}`;
+
+  const position = message.match(/line (\d+), column (\d+)/);
+  if (!position) {
+    return message;
+  }
+
+  const line = parseInt(position[1], 10);
+  const column = parseInt(position[2], 10);
+  const sourceLine = schemaText.split('\n')[line - 1];
+  if (sourceLine === undefined) {
+    return `${message}\nLine: ${line}, column: ${column}`;
+  }
+
+  return `${message}
+Line: ${line}, column: ${column}
+
+${sourceLine}
+${' '.repeat(Math.max(0, column - 1))}^`;
+}
+
+// Helper function to build the tool result for a write rejected by the write policy
+function writePolicyViolation(error: WritePolicyError) {
+  return {
+    content: [
+      {
+        type: 'text' as const,
+        text: `Write blocked by server policy: ${error.message}`,
+      },
+    ],
+    isError: true,
+  };
+}
+
+// Create an MCP server with every resource, tool and prompt registered. The
+// HTTP transport creates one per session.
+function createServer(): McpServer {
   // Create MCP server with explicit capabilities and lists of supported features
   const server = new McpServer(
     {
@@ -150,17 +599,40 @@ async function main() {
               name: 'Schema',
               description: 'The current SpiceDB schema',
             },
+            {
+              uri: 'spicedb://instances',
+              name: 'Instances',
+              description: 'The configured SpiceDB instances',
+            },
             {
               uriTemplate:
-                'spicedb://relationships/{resourceType?}/{resourceId?}/{relation?}/{subjectType?}/{subjectId?}/{subjectRelation?}',
+                'spicedb://relationships/{resourceType?}/{resourceId?}/{relation?}/{subjectType?}/{subjectId?}/{subjectRelation?}{?limit,cursor}',
               name: 'Relationships',
-              description: 'Query relationships with optional filters',
+              description:
+                'Query relationships with optional filters, one page at a time',
             },
             {
               uriTemplate: 'spicedb://definition/{objectType}',
               name: 'Object Definition',
               description: 'Get definition for a specific object type',
             },
+            {
+              uriTemplate: 'spicedb://schema/graph{?format,focus,depth}',
+              name: 'Schema Graph',
+              description:
+                'The schema as a Mermaid (default) or Graphviz DOT diagram, optionally focused on one definition and its neighborhood',
+            },
+            {
+              uriTemplate: 'spicedb://caveat/{caveatName}',
+              name: 'Caveat',
+              description: 'Get a specific caveat from the schema',
+            },
+            {
+              uriTemplate: 'spicedb://export{?resourceType}',
+              name: 'Export',
+              description:
+                'The schema and relationships as a validation file for zed validate or the Playground',
+            },
           ],
         },
 
@@ -171,6 +643,18 @@ async function main() {
               name: 'read-schema',
               description: 'Get the current SpiceDB schema',
             },
+            {
+              name: 'watch-changes',
+              description: 'List relationship changes since a ZedToken',
+            },
+            {
+              name: 'write-schema',
+              description: 'Preview and write a new SpiceDB schema',
+            },
+            {
+              name: 'render-schema-graph',
+              description: 'Render the schema as a Mermaid or DOT diagram',
+            },
             {
               name: 'read-relationships',
               description: 'Find relationships matching specified filters',
@@ -179,6 +663,25 @@ async function main() {
               name: 'check-permission',
               description: 'Check if a subject has a permission on a resource',
             },
+            {
+              name: 'check-permissions-bulk',
+              description: 'Check many permissions in a single request',
+            },
+            {
+              name: 'expand-permission',
+              description:
+                'Expand a permission into the tree of relations and subjects it is computed from',
+            },
+            {
+              name: 'explain-denial',
+              description:
+                'Suggest the relationships that would grant a denied permission',
+            },
+            {
+              name: 'run-assertions',
+              description:
+                'Run validation file assertions and expected relations against the instance',
+            },
             {
               name: 'lookup-resources',
               description: 'Find resources where a subject has a permission',
@@ -187,10 +690,35 @@ async function main() {
               name: 'lookup-subjects',
               description: 'Find subjects with permission on a resource',
             },
+            {
+              name: 'export-snapshot',
+              description:
+                'Export the schema and relationships as a validation file, CSV or JSON lines',
+            },
             {
               name: 'write-relationship',
               description: 'Create, update, or delete a relationship',
             },
+            {
+              name: 'write-relationships',
+              description:
+                'Atomically apply multiple relationship updates with preconditions',
+            },
+            {
+              name: 'import-relationships',
+              description:
+                'Import many relationships from relationship text in atomic batches',
+            },
+            {
+              name: 'load-validation-file',
+              description:
+                'Bootstrap a disposable instance from a validation file',
+            },
+            {
+              name: 'delete-relationships',
+              description:
+                'Delete relationships matching a filter, with a dry-run preview',
+            },
           ],
         },
 
@@ -219,18 +747,44 @@ async function main() {
     }
   );
 
-  console.error('Starting SpiceDB MCP Server...');
-  console.error(`Connected to SpiceDB at ${process.env.SPICEDB_ENDPOINT}`);
-
   // Register resources
   registerResources(server);
 
   // Register tools
   registerTools(server);
 
+  // Register write tools unless the server is read-only
+  if (instances.hasWritableInstance()) {
+    registerWriteTools(server);
+  }
+
   // Register prompts
   registerPrompts(server);
 
+  return server;
+}
+
+async function main() {
+  console.error('Starting SpiceDB MCP Server...');
+  console.error(`Default SpiceDB instance: ${instances.defaultName}`);
+  console.error(`Write policy: ${describeWritePolicy(writePolicy)}`);
+
+  if (getTransportMode(process.argv) === 'http') {
+    const options = loadHttpServerOptions(process.argv);
+
+    // Per-session state such as read-your-writes tokens is released when a session ends
+    await startHttpServer(options, createServer, (sessionId) =>
+      instances.forgetSession(sessionId)
+    );
+
+    console.error(
+      `SpiceDB MCP Server running on http://${options.host}:${options.port} (Streamable HTTP at /mcp, SSE at /sse)`
+    );
+    return;
+  }
+
+  const server = createServer();
+
   // Configure server capabilities
   const transport = new StdioServerTransport();
 
@@ -253,12 +807,39 @@ async function main() {
 }
 
 function registerResources(server: McpServer) {
+  // Resources read from the default instance; tools take an instance parameter
+  const target = instances.get();
+  const spiceDB = target.client;
+
+  // Instances resource - List the configured SpiceDB instances
+  server.resource('instances', 'spicedb://instances', async (uri) => {
+    // API keys are deliberately left out
+    const list = instances.list().map(({ config, client, writePolicy }) => ({
+      name: config.name,
+      endpoint: client.getEndpoint(),
+      transport: client.getTransportName(),
+      useTLS: client.usesTLS(),
+      readOnly: writePolicy.readOnly,
+      disposable: config.disposable,
+      default: config.name === instances.defaultName,
+      ...(config.description ? { description: config.description } : {}),
+    }));
+
+    return {
+      contents: [
+        {
+          uri: uri.href,
+          text: JSON.stringify(list, null, 2),
+          mimeType: 'application/json',
+        },
+      ],
+    };
+  });
+
   // Schema resource - Get the current schema from SpiceDB
   server.resource('schema', 'spicedb://schema', async (uri) => {
     try {
-      const response = (await spiceDB.readSchema({
-        consistency: spiceDB.fullConsistency(),
-      })) as any;
+      const response = await spiceDB.readSchema();
 
       return {
         contents: [
@@ -275,7 +856,7 @@ function registerResources(server: McpServer) {
         contents: [
           {
             uri: uri.href,
-            text: `Error fetching schema: ${error}`,
+            text: `Error fetching schema: ${describeError(error)}`,
             mimeType: 'text/plain',
           },
         ],
@@ -283,46 +864,68 @@ function registerResources(server: McpServer) {
     }
   });
 
-  // Relationships resource - Get relationships for a specific filter
+  // Relationships resource - Get relationships for a specific filter. SDK
+  // templates can't express optional path segments or query parameters, so the
+  // filter segments and ?limit=&cursor= are parsed from the whole path here.
   server.resource(
     'relationships',
-    new ResourceTemplate(
-      'spicedb://relationships/{resourceType?}/{resourceId?}/{relation?}/{subjectType?}/{subjectId?}/{subjectRelation?}',
-      { list: undefined }
-    ),
-    async (uri, params) => {
+    new ResourceTemplate('spicedb://relationships/{+filter}', {
+      list: undefined,
+    }),
+    async (uri, _params, extra) => {
       try {
-        const resourceType = params.resourceType as string | undefined;
-        const resourceId = params.resourceId as string | undefined;
-        const relation = params.relation as string | undefined;
-        const subjectType = params.subjectType as string | undefined;
-        const subjectId = params.subjectId as string | undefined;
-        const subjectRelation = params.subjectRelation as string | undefined;
-
-        const filter = spiceDB.createRelationshipFilter(
+        const [
           resourceType,
           resourceId,
           relation,
           subjectType,
           subjectId,
-          subjectRelation
-        );
+          subjectRelation,
+        ] = uri.pathname
+          .split('/')
+          .slice(1)
+          .map((segment) =>
+            segment ? decodeURIComponent(segment) : undefined
+          );
+
+        const limitParam = uri.searchParams.get('limit');
+        const limit = limitParam ? Number(limitParam) : undefined;
+        if (
+          limit !== undefined &&
+          (!Number.isInteger(limit) || limit < 1 || limit > maxPageLimit)
+        ) {
+          throw new Error(
+            `limit must be an integer between 1 and ${maxPageLimit}`
+          );
+        }
 
-        // Read relationships matching the filter
-        const results = await spiceDB.readRelationships({
-          consistency: spiceDB.fullConsistency(),
-          relationshipFilter: filter,
+        const filter = buildRelationshipFilter({
+          resourceType,
+          resourceId,
+          relation,
+          subjectType,
+          subjectId,
+          subjectRelation,
         });
 
+        // Read one page of relationships matching the filter
+        const page = await readPage(
+          target,
+          'readRelationships',
+          { relationshipFilter: filter },
+          consistencyFor(target, extra.sessionId),
+          {
+            limit,
+            cursor: uri.searchParams.get('cursor') || undefined,
+            signal: extra.signal,
+          }
+        );
+
         let relationships = '';
-        for (const result of results) {
-          const rel = (result as any).relationship;
+        for (const result of page.results) {
+          const rel = result.relationship;
           if (rel) {
-            const resource = `${rel.resource.objectType}:${rel.resource.objectId}`;
-            const relation = rel.relation;
-            const subject = spiceDB.subjectRefToString(rel.subject);
-
-            relationships += `${resource}#${relation}@${subject}\n`;
+            relationships += `${spiceDB.relationshipToString(rel)}\n`;
           }
         }
 
@@ -330,7 +933,11 @@ function registerResources(server: McpServer) {
           contents: [
             {
               uri: uri.href,
-              text: relationships || 'No relationships found',
+              text: relationships
+                ? `${describePage(page, 'relationship(s)')}\n\n${relationships}${
+                    page.next ? `\nNext page: cursor=${page.next}` : ''
+                  }`
+                : 'No relationships found',
               mimeType: 'text/plain',
             },
           ],
@@ -341,7 +948,7 @@ function registerResources(server: McpServer) {
           contents: [
             {
               uri: uri.href,
-              text: `Error fetching relationships: ${error}`,
+              text: `Error fetching relationships: ${describeError(error)}`,
               mimeType: 'text/plain',
             },
           ],
@@ -358,39 +965,13 @@ function registerResources(server: McpServer) {
     }),
     async (uri, { objectType }) => {
       try {
-        const response = (await spiceDB.readSchema({
-          consistency: spiceDB.fullConsistency(),
-        })) as any;
+        const response = await spiceDB.readSchema();
 
         // Parse schema to extract the specific object definition
         const schemaText = response.schemaText;
-        const lines = schemaText.split('\n');
-
-        let definition = '';
-        let insideDefinition = false;
-        let braceCount = 0;
-
-        for (const line of lines) {
-          if (
-            !insideDefinition &&
-            line.startsWith(`definition ${objectType} {`)
-          ) {
-            insideDefinition = true;
-            braceCount = 1;
-          }
-
-          if (insideDefinition) {
-            definition += line + '\n';
-
-            // Count braces to know when the definition block ends
-            braceCount += (line.match(/{/g) || []).length;
-            braceCount -= (line.match(/}/g) || []).length;
-
-            if (braceCount === 0) {
-              insideDefinition = false;
-            }
-          }
-        }
+        const name = decodeURIComponent(objectType as string);
+        const node = findDefinition(parseSchema(schemaText), name);
+        const definition = node ? nodeSource(schemaText, node) : '';
 
         if (!definition) {
           return {
@@ -422,7 +1003,7 @@ function registerResources(server: McpServer) {
           contents: [
             {
               uri: uri.href,
-              text: `Error fetching object definition: ${error}`,
+              text: `Error fetching object definition: ${describeError(error)}`,
               mimeType: 'text/plain',
             },
           ],
@@ -430,132 +1011,1816 @@ function registerResources(server: McpServer) {
       }
     }
   );
-}
 
-function registerTools(server: McpServer) {
-  // Read Schema tool
-  server.tool(
-    'read-schema',
-    'Retrieves the complete schema from the SpiceDB instance. The schema defines all object types, relations, permissions, and caveats in the system. This tool requires no parameters and returns the raw schema text as defined in SpiceDB.',
-    {}, // No parameters needed
-    async () => {
+  // Caveat resource - Get a caveat from schema
+  server.resource(
+    'caveat',
+    new ResourceTemplate('spicedb://caveat/{caveatName}', {
+      list: undefined,
+    }),
+    async (uri, { caveatName }) => {
       try {
-        // Log tool execution through console
-        logMessage(server, 'info', 'Executing read-schema tool');
-
-        const response = (await spiceDB.readSchema({
-          consistency: spiceDB.fullConsistency(),
-        })) as any;
+        const response = await spiceDB.readSchema();
 
-        // Log successful execution
-        logMessage(server, 'info', 'Successfully retrieved schema');
-
-        // Extract object definitions from schema to create resources
         const schemaText = response.schemaText;
-        const objectDefResources =
-          extractObjectDefinitionsFromSchema(schemaText);
+        const name = decodeURIComponent(caveatName as string);
+        const caveat = parseSchema(schemaText).caveats.find(
+          (candidate) => candidate.name === name
+        );
 
         return {
-          content: [
+          contents: [
             {
-              type: 'text',
-              text: response.schemaText,
+              uri: uri.href,
+              text: caveat
+                ? nodeSource(schemaText, caveat)
+                : `No caveat found with name: ${name}`,
+              mimeType: 'text/plain',
             },
           ],
-          resources: objectDefResources,
         };
       } catch (error) {
-        // Log error through console for server-side debugging
-        console.error('Error reading schema:', error);
-
-        // Log error through console for client visibility
-        logMessage(server, 'error', `Failed to read schema: ${error}`);
-
+        console.error(`Error fetching caveat ${caveatName}:`, error);
         return {
-          content: [
+          contents: [
             {
-              type: 'text',
-              text: `Error reading schema: ${error}`,
+              uri: uri.href,
+              text: `Error fetching caveat: ${describeError(error)}`,
+              mimeType: 'text/plain',
             },
           ],
-          isError: true,
         };
       }
     }
   );
 
-  // Read Relationships tool
-  server.tool(
-    'read-relationships',
-    'Finds and retrieves relationships in the SpiceDB system matching the provided filters. All parameters are optional, allowing you to filter with varying levels of specificity - from all relationships in the system to a very specific relationship between two objects.',
-    {
-      resourceType: z.string().optional(),
-      resourceId: z.string().optional(),
-      relation: z.string().optional(),
-      subjectType: z.string().optional(),
-      subjectId: z.string().optional(),
-      subjectRelation: z.string().optional(),
-    },
-    async ({
-      resourceType,
-      resourceId,
-      relation,
-      subjectType,
-      subjectId,
-      subjectRelation,
-    }) => {
-      try {
-        const filter = spiceDB.createRelationshipFilter(
-          resourceType,
-          resourceId,
-          relation,
-          subjectType,
-          subjectId,
-          subjectRelation
+  // Schema graph resource - Render the schema as a Mermaid or DOT diagram.
+  // ?format=&focus=&depth= are optional and may come in any order, which SDK
+  // templates can't express, so they are parsed from the whole URI here.
+  const readSchemaGraph = async (uri: URL) => {
+    try {
+      const format = uri.searchParams.get('format');
+      if (format && format !== 'mermaid' && format !== 'dot') {
+        throw new Error(
+          `Unsupported graph format: ${format} (expected mermaid or dot)`
         );
+      }
 
-        // Read relationships matching the filter
-        const results = await spiceDB.readRelationships({
-          consistency: spiceDB.fullConsistency(),
-          relationshipFilter: filter,
-        });
-
-        let relationships = '';
-        let count = 0;
-        const relationshipResources = [];
-
-        for (const result of results) {
-          const rel = (result as any).relationship;
-          if (rel) {
-            const resourceType = rel.resource.objectType;
-            const resourceId = rel.resource.objectId;
-            const resource = `${resourceType}:${resourceId}`;
-            const relation = rel.relation;
-            const subject = spiceDB.subjectRefToString(rel.subject);
-            const relationshipString = `${resource}#${relation}@${subject}`;
+      const depthParam = uri.searchParams.get('depth');
+      const depth = depthParam ? Number(depthParam) : undefined;
+      if (depth !== undefined && (!Number.isInteger(depth) || depth < 1)) {
+        throw new Error('depth must be a positive integer');
+      }
 
-            // Add to text output
-            relationships += `${relationshipString}\n`;
+      const graphFormat: GraphFormat = format === 'dot' ? 'dot' : 'mermaid';
+      const graph = await renderCurrentSchemaGraph(spiceDB, {
+        format: graphFormat,
+        focus: uri.searchParams.get('focus') || undefined,
+        depth,
+      });
 
-            // Create resource for each relationship
-            relationshipResources.push({
-              uri: `spicedb://relationships/${resourceType}/${resourceId}/${relation}`,
-              name: relationshipString,
-              description: `Relationship between ${resource} and ${subject}`,
-            });
+      return {
+        contents: [
+          graph === undefined
+            ? {
+                uri: uri.href,
+                text: emptySchemaGraphMessage,
+                mimeType: 'text/plain',
+              }
+            : {
+                uri: uri.href,
+                text: graph,
+                mimeType: graphMimeTypes[graphFormat],
+              },
+        ],
+      };
+    } catch (error) {
+      console.error('Error rendering schema graph:', error);
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            text: `Error rendering schema graph: ${describeError(error)}`,
+            mimeType: 'text/plain',
+          },
+        ],
+      };
+    }
+  };
+
+  server.resource('schema-graph', 'spicedb://schema/graph', async (uri) =>
+    readSchemaGraph(uri)
+  );
+
+  server.resource(
+    'schema-graph-format',
+    new ResourceTemplate('spicedb://schema/graph{+query}', {
+      list: undefined,
+    }),
+    async (uri) => readSchemaGraph(uri)
+  );
+
+  // Export resource - The schema and relationships as a validation file.
+  // resourceType may be repeated or comma-separated to export several types,
+  // which SDK templates can't express, so it is parsed from the whole URI here.
+  const readExport = async (uri: URL) => {
+    try {
+      const snapshot = await exportSnapshot(spiceDB, {
+        format: 'yaml',
+        resourceTypes: uri.searchParams
+          .getAll('resourceType')
+          .flatMap((value) => value.split(','))
+          .map((value) => value.trim())
+          .filter(Boolean),
+        maxRelationships: getMaxResults(),
+      });
+
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            text: snapshot.text,
+            mimeType: exportMimeTypes.yaml,
+          },
+        ],
+      };
+    } catch (error) {
+      console.error('Error exporting snapshot:', error);
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            text: `Error exporting snapshot: ${describeError(error)}`,
+            mimeType: 'text/plain',
+          },
+        ],
+      };
+    }
+  };
+
+  server.resource('export', 'spicedb://export', async (uri) => readExport(uri));
+
+  server.resource(
+    'export-resource-type',
+    new ResourceTemplate('spicedb://export{+query}', {
+      list: undefined,
+    }),
+    async (uri) => readExport(uri)
+  );
+}
+
+function registerTools(server: McpServer) {
+  // Read Schema tool
+  server.registerTool(
+    'read-schema',
+    {
+      description:
+        'Retrieves the complete schema from the SpiceDB instance. The schema defines all object types, relations, permissions, and caveats in the system. This tool requires no parameters and returns the raw schema text as defined in SpiceDB, along with a structured outline of its definitions and caveats.',
+      inputSchema: { ...instanceParams },
+      outputSchema: readSchemaOutput,
+      annotations: { readOnlyHint: true },
+    },
+    async ({ instance }, extra) => {
+      try {
+        const spiceDB = instances.get(instance).client;
+
+        // Log tool execution through console
+        logMessage(server, 'info', 'Executing read-schema tool');
+
+        const response = await spiceDB.readSchema({}, { signal: extra.signal });
+
+        // Log successful execution
+        logMessage(server, 'info', 'Successfully retrieved schema');
+
+        // Extract object definitions from schema to create resources
+        const schemaText = response.schemaText;
+        const objectDefResources =
+          extractObjectDefinitionsFromSchema(schemaText);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: response.schemaText,
+            },
+          ],
+          structuredContent: {
+            schemaText,
+            ...schemaOutline(schemaText),
+          },
+          resources: objectDefResources,
+        };
+      } catch (error) {
+        // Log error through console for server-side debugging
+        console.error('Error reading schema:', error);
+
+        // Log error through console for client visibility
+        logMessage(server, 'error', `Failed to read schema: ${error}`);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error reading schema: ${describeError(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  // Render Schema Graph tool
+  server.tool(
+    'render-schema-graph',
+    'Renders the current schema as a diagram, either Mermaid (default) or Graphviz DOT. Nodes are definitions; solid edges are relations labeled with their allowed subject types, and dashed edges are permission arrows such as parent->view. Pass focus with an object type to only show that definition and its neighborhood, and depth to control how many edges away from it to include (default 1).',
+    {
+      format: z.enum(['mermaid', 'dot']).optional(),
+      focus: z.string().optional(),
+      depth: z.number().int().min(1).optional(),
+      ...instanceParams,
+    },
+    { readOnlyHint: true },
+    async ({ format, focus, depth, instance }) => {
+      try {
+        const graphFormat = format || 'mermaid';
+        const graph = await renderCurrentSchemaGraph(
+          instances.get(instance).client,
+          {
+            format: graphFormat,
+            focus,
+            depth,
+          }
+        );
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text:
+                graph === undefined
+                  ? emptySchemaGraphMessage
+                  : `\`\`\`${graphFormat}\n${graph}\`\`\``,
+            },
+          ],
+        };
+      } catch (error) {
+        console.error('Error rendering schema graph:', error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error rendering schema graph: ${describeError(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  // Read Relationships tool
+  server.registerTool(
+    'read-relationships',
+    {
+      description:
+        'Finds and retrieves relationships in the SpiceDB system matching the provided filters. All parameters are optional, allowing you to filter with varying levels of specificity - from all relationships in the system to a very specific relationship between two objects. Results come back one page at a time (limit, default 100); when more are available the response includes a cursor to pass for the next page.',
+      inputSchema: {
+        resourceType: z.string().optional(),
+        resourceId: z.string().optional(),
+        relation: z.string().optional(),
+        subjectType: z.string().optional(),
+        subjectId: z.string().optional(),
+        subjectRelation: z.string().optional(),
+        ...paginationParams,
+        ...consistencyParams,
+        ...instanceParams,
+      },
+      outputSchema: readRelationshipsOutput,
+      annotations: { readOnlyHint: true },
+    },
+    async (
+      {
+        resourceType,
+        resourceId,
+        relation,
+        subjectType,
+        subjectId,
+        subjectRelation,
+        limit,
+        cursor,
+        consistency,
+        zedToken,
+        instance,
+      },
+      extra
+    ) => {
+      try {
+        const target = instances.get(instance);
+        const spiceDB = target.client;
+
+        const filter = buildRelationshipFilter({
+          resourceType,
+          resourceId,
+          relation,
+          subjectType,
+          subjectId,
+          subjectRelation,
+        });
+
+        // Read one page of relationships matching the filter
+        const page = await readPage(
+          target,
+          'readRelationships',
+          { relationshipFilter: filter },
+          consistencyFor(target, extra.sessionId, consistency, zedToken),
+          { limit, cursor, signal: extra.signal }
+        );
+
+        let relationships = '';
+        let count = 0;
+        const relationshipResources = [];
+
+        for (const result of page.results) {
+          const rel = result.relationship;
+          if (rel) {
+            const resourceType = rel.resource.objectType;
+            const resourceId = rel.resource.objectId;
+            const resource = `${resourceType}:${resourceId}`;
+            const relation = rel.relation;
+            const subject = spiceDB.subjectRefToString(rel.subject);
+            const relationshipString = spiceDB.relationshipToString(rel);
+
+            // Add to text output
+            relationships += `${relationshipString}\n`;
+
+            // Create resource for each relationship
+            relationshipResources.push({
+              uri: `spicedb://relationships/${resourceType}/${resourceId}/${relation}`,
+              name: relationshipString,
+              description: `Relationship between ${resource} and ${subject}`,
+            });
+
+            count++;
+          }
+        }
+
+        const structuredContent: ToolOutput<typeof readRelationshipsOutput> = {
+          relationships: page.results.map((result) => result.relationship),
+          ...pageInfo(page),
+        };
+
+        if (count === 0) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: 'No relationships found matching the specified filter.',
+              },
+            ],
+            structuredContent,
+          };
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `${describePage(
+                page,
+                'relationship(s)'
+              )}\n\n${relationships}${nextPageHint(page)}`,
+            },
+          ],
+          structuredContent,
+          resources: relationshipResources,
+        };
+      } catch (error) {
+        console.error('Error reading relationships:', error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error reading relationships: ${describeError(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  // Export Snapshot tool
+  server.tool(
+    'export-snapshot',
+    'Exports the schema and relationships as a SpiceDB validation file (YAML with schema: and relationships:, as read by zed validate and the Playground), or the relationships alone as CSV or JSON lines. By default every definition in the schema is exported; pass resourceTypes to export only relationships whose resource has one of those types. Everything is read at a single revision. Pass redactIds: true to replace object IDs with placeholders (consistent within the export, so relationships still connect) before sharing it; caveat context and expirations are kept as is.',
+    {
+      resourceTypes: z.array(z.string()).optional(),
+      format: z.enum(['yaml', 'csv', 'jsonl']).optional(),
+      redactIds: z.boolean().optional(),
+      ...instanceParams,
+    },
+    { readOnlyHint: true },
+    async ({ resourceTypes, format, redactIds, instance }, extra) => {
+      try {
+        const exportFormat = format || 'yaml';
+        const maxRelationships = getMaxResults();
+        const snapshot = await exportSnapshot(instances.get(instance).client, {
+          format: exportFormat,
+          resourceTypes,
+          redactIds,
+          maxRelationships,
+          signal: extra.signal,
+        });
+
+        let notes = '';
+        if (snapshot.truncated) {
+          notes += `\nIncomplete: stopped after ${maxRelationships} relationships (SPICEDB_MAX_RESULTS). Export fewer resource types at a time to get the rest.`;
+        }
+        if (exportFormat !== 'yaml') {
+          notes += '\nThis format has only the relationships, not the schema.';
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Exported ${
+                snapshot.relationshipCount
+              } relationship(s) of ${
+                snapshot.resourceTypes.length
+              } resource type(s) (${snapshot.resourceTypes.join(', ')})${
+                snapshot.readAt ? ` at ZedToken ${snapshot.readAt}` : ''
+              }${redactIds ? ', with object IDs redacted' : ''}.${notes}
+
+\`\`\`${exportFormat}
+${snapshot.text}\`\`\``,
+            },
+          ],
+        };
+      } catch (error) {
+        console.error('Error exporting snapshot:', error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error exporting snapshot: ${describeError(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  // Check Permission tool
+  server.registerTool(
+    'check-permission',
+    {
+      description:
+        'Checks whether a specific subject has a particular permission on a resource. This is the core authorization check function of SpiceDB - determining "Can subject X perform action Y on resource Z?" The tool will return the result of the permission check along with details about the resources and subject involved and tracing information that explains how the authorization decision was made. The optional context object supplies caveat context (for example {"ip": "10.0.0.1"}); when the result is conditional, the caveat context keys that are still missing are listed.',
+      inputSchema: {
+        resourceType: z.string(),
+        resourceId: z.string(),
+        permission: z.string(),
+        subjectType: z.string(),
+        subjectId: z.string(),
+        subjectRelation: z.string().optional(),
+        context: z.record(z.any()).optional(),
+        ...consistencyParams,
+        ...instanceParams,
+      },
+      outputSchema: checkPermissionOutput,
+      annotations: { readOnlyHint: true },
+    },
+    async (
+      {
+        resourceType,
+        resourceId,
+        permission,
+        subjectType,
+        subjectId,
+        subjectRelation,
+        context,
+        consistency,
+        zedToken,
+        instance,
+      },
+      extra
+    ) => {
+      try {
+        const target = instances.get(instance);
+        const spiceDB = target.client;
+
+        const resource = buildObjectReference(resourceType, resourceId);
+        const subject = buildSubjectReference(
+          subjectType,
+          subjectId,
+          subjectRelation
+        );
+
+        const response = await spiceDB.checkPermission(
+          {
+            consistency: consistencyFor(
+              target,
+              extra.sessionId,
+              consistency,
+              zedToken
+            ),
+            resource,
+            permission,
+            subject,
+            context,
+            withTracing: true,
+          },
+          { signal: extra.signal }
+        );
+
+        const permissionship = response.permissionship;
+        const debugTrace = response.debugTrace;
+
+        const result = formatPermissionship(permissionship);
+
+        // Tell the caller which caveat context keys would resolve a conditional result
+        let caveatContext = '';
+        if (context) {
+          caveatContext += `\nContext: ${JSON.stringify(context)}`;
+        }
+        if (permissionship === 'PERMISSIONSHIP_CONDITIONAL_PERMISSION') {
+          caveatContext += `\nMissing caveat context: ${describeMissingContext(
+            response.partialCaveatInfo
+          )}`;
+        }
+
+        // Generate a human-readable explanation based on the debug trace
+        let explanation = '';
+        if (debugTrace && debugTrace.check) {
+          explanation = generateTraceExplanation(debugTrace.check, 0);
+        }
+
+        let schemaContext = '';
+        if (debugTrace && debugTrace.schemaUsed) {
+          schemaContext = `\n\nRelevant schema:\n\`\`\`zed\n${debugTrace.schemaUsed}\n\`\`\``;
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Permission check result: ${result}
+
+Resource: ${resourceType}:${resourceId}
+Permission: ${permission}
+Subject: ${subjectType}:${subjectId}${
+                subjectRelation ? '#' + subjectRelation : ''
+              }${caveatContext}
+
+Explanation:
+${explanation}${schemaContext}`,
+            },
+          ],
+          structuredContent: {
+            permissionship,
+            resource,
+            permission,
+            subject,
+            context,
+            missingContext:
+              permissionship === 'PERMISSIONSHIP_CONDITIONAL_PERMISSION'
+                ? (response.partialCaveatInfo?.missingRequiredContext ?? [])
+                : undefined,
+            checkedAt: response.checkedAt?.token,
+            trace: debugTrace?.check,
+          },
+        };
+      } catch (error) {
+        console.error('Error checking permission:', error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error checking permission: ${describeError(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  // Bulk Check Permissions tool
+  server.tool(
+    'check-permissions-bulk',
+    'Checks many permissions in a single request. Each check is either an object with resourceType, resourceId, permission, subjectType, subjectId and optional subjectRelation, or a shorthand string in the format "resourceType:resourceId#permission@subjectType:subjectId[#subjectRelation]". Returns a compact table with one result per check; a check that fails (for example because of an unknown permission) is reported as an error on its own row without failing the rest of the batch.',
+    {
+      checks: z
+        .array(
+          z.union([
+            z.string(),
+            z.object({
+              resourceType: z.string(),
+              resourceId: z.string(),
+              permission: z.string(),
+              subjectType: z.string(),
+              subjectId: z.string(),
+              subjectRelation: z.string().optional(),
+            }),
+          ])
+        )
+        .min(1),
+      ...consistencyParams,
+      ...instanceParams,
+    },
+    { readOnlyHint: true },
+    async ({ checks, consistency, zedToken, instance }, extra) => {
+      try {
+        const target = instances.get(instance);
+        const spiceDB = target.client;
+
+        // Normalize every check, remembering parse errors per row so one
+        // malformed shorthand doesn't prevent the rest from being checked
+        const rows = checks.map((check) => {
+          try {
+            if (typeof check === 'string') {
+              const parsed = spiceDB.parseRelationshipString(check.trim());
+              return {
+                resourceType: parsed.resourceType,
+                resourceId: parsed.resourceId,
+                permission: parsed.relation,
+                subjectType: parsed.subjectType,
+                subjectId: parsed.subjectId,
+                subjectRelation: parsed.optionalSubjectRelation,
+              };
+            }
+            return check;
+          } catch (error) {
+            return { error: `${error}`, input: `${check}` };
+          }
+        });
+
+        const items: CheckBulkPermissionsRequestItem[] = [];
+        const itemIndexes: number[] = [];
+        rows.forEach((row, index) => {
+          if ('error' in row) return;
+
+          items.push({
+            resource: buildObjectReference(row.resourceType, row.resourceId),
+            permission: row.permission,
+            subject: buildSubjectReference(
+              row.subjectType,
+              row.subjectId,
+              row.subjectRelation
+            ),
+          });
+          itemIndexes.push(index);
+        });
+
+        const results: string[] = rows.map((row) =>
+          'error' in row ? `ERROR: ${row.error}` : 'UNKNOWN'
+        );
+
+        if (items.length > 0) {
+          const response = await spiceDB.checkBulkPermissions(
+            {
+              consistency: consistencyFor(
+                target,
+                extra.sessionId,
+                consistency,
+                zedToken
+              ),
+              items,
+            },
+            { signal: extra.signal }
+          );
+
+          response.pairs.forEach((pair, pairIndex) => {
+            const index = itemIndexes[pairIndex];
+            if (index === undefined) return;
+
+            if (pair.error) {
+              // Keep the hint on the same line so the table stays intact
+              results[index] = `ERROR: ${describeError(
+                new SpiceDBError(pair.error)
+              ).replace(/\n/g, ' ')}`;
+            } else if (pair.item) {
+              results[index] = formatPermissionship(pair.item.permissionship);
+            }
+          });
+        }
+
+        let table = '| # | Resource | Permission | Subject | Result |\n';
+        table += '|---|----------|------------|---------|--------|\n';
+
+        const counts: Record<string, number> = {};
+        rows.forEach((row, index) => {
+          const result = results[index];
+          const key = result.startsWith('ERROR') ? 'ERROR' : result;
+          counts[key] = (counts[key] || 0) + 1;
+
+          if ('error' in row) {
+            table += `| ${index + 1} | ${row.input} | - | - | ${result} |\n`;
+            return;
+          }
+
+          const subject = `${row.subjectType}:${row.subjectId}${
+            row.subjectRelation ? '#' + row.subjectRelation : ''
+          }`;
+          table += `| ${index + 1} | ${row.resourceType}:${row.resourceId} | ${
+            row.permission
+          } | ${subject} | ${result} |\n`;
+        });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Checked ${rows.length} permission(s): ${
+                counts['HAS PERMISSION'] || 0
+              } allowed, ${counts['NO PERMISSION'] || 0} denied, ${
+                counts['CONDITIONAL PERMISSION'] || 0
+              } conditional, ${counts['ERROR'] || 0} error(s).
+
+${table}`,
+            },
+          ],
+        };
+      } catch (error) {
+        console.error('Error checking permissions in bulk:', error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error checking permissions in bulk: ${describeError(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  // Expand Permission tool
+  server.tool(
+    'expand-permission',
+    `Expands a permission (or relation) on a resource with SpiceDB's ExpandPermissionTree, showing the full shape of who gets access via which relation rather than a yes or no for one subject. The tree of union, intersection and exclusion operations down to the subjects of each relation is rendered as an indented outline. maxDepth limits how many levels are rendered (default ${defaultExpandDepth}, max ${maxExpandDepth}). Leaves can list usersets such as group:eng#member, whose members SpiceDB doesn't expand; pass expandUsersets: true to expand each of them into its own tree as well.`,
+    {
+      resourceType: z.string(),
+      resourceId: z.string(),
+      permission: z.string(),
+      maxDepth: z.number().int().min(1).max(maxExpandDepth).optional(),
+      expandUsersets: z.boolean().optional(),
+      ...consistencyParams,
+      ...instanceParams,
+    },
+    { readOnlyHint: true },
+    async (
+      {
+        resourceType,
+        resourceId,
+        permission,
+        maxDepth,
+        expandUsersets,
+        consistency,
+        zedToken,
+        instance,
+      },
+      extra
+    ) => {
+      try {
+        const target = instances.get(instance);
+
+        const expanded = await expandPermission(
+          target.client,
+          buildObjectReference(resourceType, resourceId),
+          permission,
+          {
+            consistency: consistencyFor(
+              target,
+              extra.sessionId,
+              consistency,
+              zedToken
+            ),
+            maxDepth: maxDepth || defaultExpandDepth,
+            expandUsersets: expandUsersets || false,
+            signal: extra.signal,
+          }
+        );
+
+        let text = `Permission tree for ${resourceType}:${resourceId}#${permission}${
+          expanded.usersetsExpanded > 0
+            ? ` (with ${expanded.usersetsExpanded} userset(s) expanded)`
+            : ''
+        }:
+
+\`\`\`
+${expanded.text}\`\`\``;
+        if (expanded.truncated) {
+          text += `\n\nParts of the tree marked ... were left out; raise maxDepth to see more.`;
+        }
+        if (expanded.expandedAt) {
+          text += `\n\nExpanded at ZedToken: ${expanded.expandedAt}`;
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text,
+            },
+          ],
+        };
+      } catch (error) {
+        console.error('Error expanding permission:', error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error expanding permission: ${describeError(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  // Explain Denial tool
+  server.tool(
+    'explain-denial',
+    `Answers "what do I grant so this subject gets this permission?" when a check returns NO PERMISSION. The schema's expression for the permission is walked over the current relationships of the resource and the objects it is related to (usersets such as group members, and arrows such as parent->view), and the relationships that would grant the permission are listed, narrowest first: a direct relationship on the resource ranks above joining a group or granting on a parent, which also grant other access, and wildcards come last. Exclusions (-) the subject is removed by and intersections (&) it only meets one side of are flagged, since adding grants won't help there. Returns at most maxCandidates candidates (default ${defaultDenialCandidates}, max ${maxDenialCandidates}).`,
+    {
+      resourceType: z.string(),
+      resourceId: z.string(),
+      permission: z.string(),
+      subjectType: z.string(),
+      subjectId: z.string(),
+      subjectRelation: z.string().optional(),
+      context: z.record(z.any()).optional(),
+      maxCandidates: z
+        .number()
+        .int()
+        .min(1)
+        .max(maxDenialCandidates)
+        .optional(),
+      ...consistencyParams,
+      ...instanceParams,
+    },
+    { readOnlyHint: true },
+    async (
+      {
+        resourceType,
+        resourceId,
+        permission,
+        subjectType,
+        subjectId,
+        subjectRelation,
+        context,
+        maxCandidates,
+        consistency,
+        zedToken,
+        instance,
+      },
+      extra
+    ) => {
+      try {
+        const target = instances.get(instance);
+        const subject = buildSubjectReference(
+          subjectType,
+          subjectId,
+          subjectRelation
+        );
+        const subjectStr = target.client.subjectRefToString(subject);
+
+        const analysis = await explainDenial(
+          target.client,
+          buildObjectReference(resourceType, resourceId),
+          permission,
+          subject,
+          {
+            consistency: consistencyFor(
+              target,
+              extra.sessionId,
+              consistency,
+              zedToken
+            ),
+            context,
+            maxCandidates: maxCandidates || defaultDenialCandidates,
+            signal: extra.signal,
+          }
+        );
+
+        const checked = `${subjectStr} ${
+          analysis.permissionship === 'PERMISSIONSHIP_HAS_PERMISSION'
+            ? 'has'
+            : 'does not have'
+        } ${permission} on ${resourceType}:${resourceId} (${formatPermissionship(
+          analysis.permissionship
+        )}).`;
+        const checkedAt = analysis.checkedAt
+          ? `\n\nChecked at ZedToken: ${analysis.checkedAt}`
+          : '';
+
+        if (analysis.permissionship !== 'PERMISSIONSHIP_NO_PERMISSION') {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `${checked}${
+                  analysis.permissionship ===
+                  'PERMISSIONSHIP_CONDITIONAL_PERMISSION'
+                    ? ' Access depends on a caveat; pass the missing caveat context to check-permission to resolve it.'
+                    : ' Nothing is missing.'
+                }${checkedAt}`,
+              },
+            ],
+          };
+        }
+
+        let text = checked;
+
+        const exclusions = analysis.blockers.filter(
+          (blocker) => blocker.kind === 'exclusion'
+        );
+        if (exclusions.length > 0 && analysis.candidates.length === 0) {
+          text += ` Access is blocked by an exclusion rather than a missing grant.`;
+        }
+        if (analysis.blockers.length > 0) {
+          text += `\n\nBlocked by:\n${analysis.blockers
+            .map(
+              (blocker) =>
+                `- ${blocker.kind === 'exclusion' ? 'Exclusion (-)' : 'Intersection (&)'} in ${blocker.at}: ${blocker.description}`
+            )
+            .join('\n')}`;
+        }
+
+        if (analysis.candidates.length > 0) {
+          text += `\n\nRelationships that would grant access, narrowest first${
+            analysis.candidateCount > analysis.candidates.length
+              ? ` (${analysis.candidates.length} of ${analysis.candidateCount})`
+              : ''
+          }:\n${analysis.candidates
+            .map((candidate, index) => {
+              const note = candidate.note ? ` (${candidate.note})` : '';
+              const via = (path: string[]) => `via ${path.join(' -> ')}`;
+              if (candidate.relationships.length === 1) {
+                return `${index + 1}. ${candidate.relationships[0]}${note}\n   ${via(
+                  candidate.paths[0]
+                )}`;
+              }
+              return `${index + 1}. All of${note}:\n${candidate.relationships
+                .map(
+                  (relationship, i) =>
+                    `   - ${relationship}\n     ${via(candidate.paths[i])}`
+                )
+                .join('\n')}`;
+            })
+            .join('\n')}`;
+          text += `\n\nWrite one with write-relationship (or several with write-relationships), then check again.`;
+        } else {
+          text += `\n\nNo relationship that would grant access was found from the current relationships.`;
+        }
+
+        if (analysis.notes.length > 0) {
+          text += `\n\nNotes:\n${analysis.notes
+            .map((note) => `- ${note}`)
+            .join('\n')}`;
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `${text}${checkedAt}`,
+            },
+          ],
+        };
+      } catch (error) {
+        console.error('Error explaining denial:', error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error explaining denial: ${describeError(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  // Run Assertions tool
+  server.tool(
+    'run-assertions',
+    'Runs permission expectations written in zed validation file syntax against the live instance and returns a pass/fail report, like zed validate. assertTrue, assertCaveated and assertFalse list permission checks in the format "resourceType:resourceId#permission@subjectType:subjectId[#subjectRelation]", optionally followed by " with {...caveat context}", that must have permission, have conditional permission, or not have permission. validation maps "resourceType:resourceId#permission" to its complete list of expected subjects, each written as "[subject] is <resource#relation>", for example "[user:alice] is <document:1#viewer>", "[user:carol[ip_allowlist]] is ..." for a caveated subject or "[user:* - {user:bob}] is ..." for a wildcard with exclusions; they are compared with the subjects LookupSubjects finds (the relationship paths after "is" are not compared). Pass content to run the assertions and validation sections of a whole validation file. Everything is evaluated at one revision, and each failure includes an explanation of its debug trace.',
+    {
+      content: z
+        .string()
+        .optional()
+        .describe('A validation file whose assertions and validation to run'),
+      assertTrue: z.array(z.string()).optional(),
+      assertCaveated: z.array(z.string()).optional(),
+      assertFalse: z.array(z.string()).optional(),
+      validation: z.record(z.array(z.string())).optional(),
+      ...consistencyParams,
+      ...instanceParams,
+    },
+    { readOnlyHint: true },
+    async (
+      {
+        content,
+        assertTrue,
+        assertCaveated,
+        assertFalse,
+        validation,
+        consistency,
+        zedToken,
+        instance,
+      },
+      extra
+    ) => {
+      try {
+        const target = instances.get(instance);
+        const file = content ? parseValidationFile(content) : undefined;
+
+        const input = {
+          assertions: {
+            assertTrue: [
+              ...(file?.assertions.assertTrue ?? []),
+              ...(assertTrue ?? []),
+            ],
+            assertCaveated: [
+              ...(file?.assertions.assertCaveated ?? []),
+              ...(assertCaveated ?? []),
+            ],
+            assertFalse: [
+              ...(file?.assertions.assertFalse ?? []),
+              ...(assertFalse ?? []),
+            ],
+          },
+          validation: { ...file?.validation, ...validation },
+        };
+        const assertionCount = Object.values(input.assertions).reduce(
+          (count, list) => count + list.length,
+          0
+        );
+        if (
+          assertionCount === 0 &&
+          Object.keys(input.validation).length === 0
+        ) {
+          throw new Error('No assertions or expected relations to run');
+        }
+
+        const report = await runAssertions(target.client, input, {
+          consistency: consistencyFor(
+            target,
+            extra.sessionId,
+            consistency,
+            zedToken
+          ),
+          maxSubjects: maxResults,
+          maxTraces: maxAssertionTraces,
+          signal: extra.signal,
+        });
+
+        const failures: string[] = [];
+        const passes: string[] = [];
+        let untraced = 0;
+
+        for (const result of report.assertions) {
+          if (result.passed) {
+            passes.push(`PASS ${result.kind}: ${result.assertion}`);
+            continue;
+          }
+
+          let text = `FAIL ${result.kind}: ${result.assertion}\n`;
+          if (result.error) {
+            text += `  Could not be checked: ${result.error.replace(
+              /\n/g,
+              '\n  '
+            )}\n`;
+          } else {
+            text += `  Expected ${formatPermissionship(
+              result.expected
+            )}, got ${formatPermissionship(result.actual ?? '')}\n`;
+            if (result.trace) {
+              text += generateTraceExplanation(result.trace, 1);
+            } else {
+              untraced++;
+            }
+          }
+          failures.push(text);
+        }
+
+        for (const result of report.validation) {
+          if (result.passed) {
+            passes.push(
+              `PASS validation: ${result.key} (${result.expected.length} subject(s))`
+            );
+            continue;
+          }
+
+          let text = `FAIL validation: ${result.key}\n`;
+          if (result.error) {
+            text += `  Could not be checked: ${result.error.replace(
+              /\n/g,
+              '\n  '
+            )}\n`;
+          } else {
+            if (result.missing.length > 0) {
+              text += `  Missing: ${result.missing.join(', ')}\n`;
+            }
+            if (result.unexpected.length > 0) {
+              text += `  Unexpected: ${result.unexpected.join(', ')}\n`;
+            }
+            for (const { subject, trace } of result.traces) {
+              text += `  Trace for ${subject}:\n${generateTraceExplanation(
+                trace,
+                2
+              )}`;
+            }
+            untraced +=
+              result.missing.length +
+              result.unexpected.length -
+              result.traces.length;
+          }
+          failures.push(text);
+        }
+
+        const total = report.assertions.length + report.validation.length;
+        let text = `Ran ${report.assertions.length} assertion(s) and ${
+          report.validation.length
+        } expected relations block(s): ${passes.length} of ${total} passed, ${
+          failures.length
+        } failed.${
+          report.checkedAt ? `\nEvaluated at ZedToken: ${report.checkedAt}` : ''
+        }\n`;
+        if (failures.length > 0) {
+          text += `\nFailures:\n\n${failures.join('\n')}`;
+          if (untraced > 0) {
+            text += `\n(${untraced} failure(s) have no trace: traces are fetched for the first ${maxAssertionTraces} failures, and not for wildcards. Use check-permission to trace one.)\n`;
+          }
+        }
+        if (passes.length > 0) {
+          text += `\nPassed:\n${passes.join('\n')}\n`;
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text,
+            },
+          ],
+        };
+      } catch (error) {
+        console.error('Error running assertions:', error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error running assertions: ${describeError(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  // Lookup Resources tool
+  server.registerTool(
+    'lookup-resources',
+    {
+      description:
+        'Finds all resources of a specified type where a subject has a particular permission. This is useful for answering questions like "What documents can this user view?" or "Which projects can this group manage?" The tool returns a list of resource IDs that match the criteria. The optional context object supplies caveat context; resources that are only conditionally accessible are marked with the caveat context keys that are still missing. Results come back one page at a time (limit, default 100); when more are available the response includes a cursor to pass for the next page.',
+      inputSchema: {
+        resourceType: z.string(),
+        permission: z.string(),
+        subjectType: z.string(),
+        subjectId: z.string(),
+        subjectRelation: z.string().optional(),
+        context: z.record(z.any()).optional(),
+        ...paginationParams,
+        ...consistencyParams,
+        ...instanceParams,
+      },
+      outputSchema: lookupResourcesOutput,
+      annotations: { readOnlyHint: true },
+    },
+    async (
+      {
+        resourceType,
+        permission,
+        subjectType,
+        subjectId,
+        subjectRelation,
+        context,
+        limit,
+        cursor,
+        consistency,
+        zedToken,
+        instance,
+      },
+      extra
+    ) => {
+      try {
+        const target = instances.get(instance);
+        const spiceDB = target.client;
+
+        const page = await readPage(
+          target,
+          'lookupResources',
+          {
+            resourceObjectType: resourceType,
+            permission,
+            subject: buildSubjectReference(
+              subjectType,
+              subjectId,
+              subjectRelation
+            ),
+            context,
+          },
+          consistencyFor(target, extra.sessionId, consistency, zedToken),
+          { limit, cursor, signal: extra.signal }
+        );
+
+        let resources = '';
+        for (const result of page.results) {
+          resources += `${resourceType}:${
+            result.resourceObjectId
+          }${conditionalLookupSuffix(result)}\n`;
+        }
+
+        const structuredContent: ToolOutput<typeof lookupResourcesOutput> = {
+          resources: page.results.map((result) => ({
+            resource: buildObjectReference(
+              resourceType,
+              result.resourceObjectId
+            ),
+            permissionship: result.permissionship,
+            missingContext: lookupMissingContext(result),
+          })),
+          ...pageInfo(page),
+        };
+
+        if (page.results.length === 0) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `No resources of type ${resourceType} found where subject ${subjectType}:${subjectId}${
+                  subjectRelation ? '#' + subjectRelation : ''
+                } has permission ${permission}.`,
+              },
+            ],
+            structuredContent,
+          };
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `${describePage(
+                page,
+                `resource(s) where subject ${subjectType}:${subjectId}${
+                  subjectRelation ? '#' + subjectRelation : ''
+                } has permission ${permission}`
+              )}\n\n${resources}${nextPageHint(page)}`,
+            },
+          ],
+          structuredContent,
+        };
+      } catch (error) {
+        console.error('Error looking up resources:', error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error looking up resources: ${describeError(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  // Lookup Subjects tool
+  server.registerTool(
+    'lookup-subjects',
+    {
+      description:
+        'Finds all subjects of a specified type that have a particular permission on a resource. This is useful for answering questions like "Who can edit this document?" or "Which users can manage this project?" The tool returns a list of subject IDs that match the criteria, potentially including wildcard subjects with exclusions. The optional context object supplies caveat context; subjects that only conditionally have the permission are marked with the caveat context keys that are still missing. Results come back one page at a time (limit, default 100); when more are available the response includes a cursor to pass for the next page.',
+      inputSchema: {
+        resourceType: z.string(),
+        resourceId: z.string(),
+        permission: z.string(),
+        subjectType: z.string(),
+        subjectRelation: z.string().optional(),
+        context: z.record(z.any()).optional(),
+        ...paginationParams,
+        ...consistencyParams,
+        ...instanceParams,
+      },
+      outputSchema: lookupSubjectsOutput,
+      annotations: { readOnlyHint: true },
+    },
+    async (
+      {
+        resourceType,
+        resourceId,
+        permission,
+        subjectType,
+        subjectRelation,
+        context,
+        limit,
+        cursor,
+        consistency,
+        zedToken,
+        instance,
+      },
+      extra
+    ) => {
+      try {
+        const target = instances.get(instance);
+        const spiceDB = target.client;
+
+        const lookupRequest: Omit<LookupSubjectsRequest, 'consistency'> = {
+          resource: buildObjectReference(resourceType, resourceId),
+          permission,
+          subjectObjectType: subjectType,
+          context,
+        };
+
+        if (subjectRelation) {
+          lookupRequest.optionalSubjectRelation = subjectRelation;
+        }
+
+        const page = await readPage(
+          target,
+          'lookupSubjects',
+          lookupRequest,
+          consistencyFor(target, extra.sessionId, consistency, zedToken),
+          { limit, cursor, signal: extra.signal }
+        );
+
+        let subjects = '';
+        for (const { subject, excludedSubjects } of page.results) {
+          // A wildcard subject may come with subjects it excludes
+          if (subject.subjectObjectId === '*' && excludedSubjects.length > 0) {
+            subjects += `${subjectType}:* (with exclusions)\n`;
+            subjects += 'Exclusions:\n';
+
+            for (const excluded of excludedSubjects) {
+              subjects += `- ${subjectType}:${excluded.subjectObjectId}\n`;
+            }
+          } else {
+            subjects += `${subjectType}:${subject.subjectObjectId}${
+              subjectRelation ? '#' + subjectRelation : ''
+            }${conditionalLookupSuffix(subject)}\n`;
+          }
+        }
+
+        const structuredContent: ToolOutput<typeof lookupSubjectsOutput> = {
+          subjects: page.results.map(({ subject, excludedSubjects }) => ({
+            subject: buildSubjectReference(
+              subjectType,
+              subject.subjectObjectId,
+              subjectRelation
+            ),
+            permissionship: subject.permissionship,
+            missingContext: lookupMissingContext(subject),
+            excludedSubjects: excludedSubjects.map((excluded) =>
+              buildSubjectReference(subjectType, excluded.subjectObjectId)
+            ),
+          })),
+          ...pageInfo(page),
+        };
+
+        if (page.results.length === 0) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `No subjects of type ${subjectType} found with permission ${permission} on resource ${resourceType}:${resourceId}.`,
+              },
+            ],
+            structuredContent,
+          };
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `${describePage(
+                page,
+                `subject(s) with permission ${permission} on resource ${resourceType}:${resourceId}`
+              )}\n\n${subjects}${nextPageHint(page)}`,
+            },
+          ],
+          structuredContent,
+        };
+      } catch (error) {
+        console.error('Error looking up subjects:', error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error looking up subjects: ${describeError(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  // Watch Changes tool
+  server.tool(
+    'watch-changes',
+    'Returns the relationship changes (TOUCH and DELETE updates) made since a ZedToken, using the SpiceDB Watch API. Useful for answering "what changed in the permission graph since X?", incident review, or confirming that a data migration happened. Without zedToken, only changes made while the tool is watching are returned. Changes can be narrowed with objectTypes or relationshipFilters (not both). Watching stops after durationSeconds (default 10, max 300) or once maxUpdates (default 100, max 1000) updates have arrived; the returned checkpoint ZedToken can be passed back as zedToken to resume from where this call stopped.',
+    {
+      zedToken: z.string().optional(),
+      objectTypes: z.array(z.string()).optional(),
+      relationshipFilters: z
+        .array(
+          z.object({
+            resourceType: z.string(),
+            resourceId: z.string().optional(),
+            relation: z.string().optional(),
+            subjectType: z.string().optional(),
+            subjectId: z.string().optional(),
+            subjectRelation: z.string().optional(),
+          })
+        )
+        .optional(),
+      durationSeconds: z.number().positive().max(300).optional(),
+      maxUpdates: z.number().int().positive().max(1000).optional(),
+      ...instanceParams,
+    },
+    { readOnlyHint: true },
+    async (
+      {
+        zedToken,
+        objectTypes,
+        relationshipFilters,
+        durationSeconds,
+        maxUpdates,
+        instance,
+      },
+      extra
+    ) => {
+      try {
+        const spiceDB = instances.get(instance).client;
+
+        if (objectTypes?.length && relationshipFilters?.length) {
+          throw new Error(
+            'objectTypes and relationshipFilters cannot be used together'
+          );
+        }
+
+        const request: WatchRequest = {};
+        if (zedToken) {
+          request.optionalStartCursor = { token: zedToken };
+        }
+        if (objectTypes?.length) {
+          request.optionalObjectTypes = objectTypes;
+        }
+        if (relationshipFilters?.length) {
+          request.optionalRelationshipFilters = relationshipFilters.map(
+            (filter) => buildRelationshipFilter(filter)
+          );
+        }
+
+        const { updates, checkpoint, cancelled } = await spiceDB.watch(
+          request,
+          {
+            maxUpdates: maxUpdates ?? 100,
+            durationMs: (durationSeconds ?? 10) * 1000,
+            signal: extra.signal,
+          }
+        );
+
+        let changes = '';
+        for (const update of updates) {
+          const operation = update.operation.replace('OPERATION_', '');
+          changes += `${operation} ${spiceDB.relationshipToString(
+            update.relationship
+          )}\n`;
+        }
+
+        const resume = checkpoint
+          ? `\n\nResume from ZedToken: ${checkpoint}`
+          : '';
+        const status = cancelled
+          ? 'The watch was cancelled before it finished, so this covers only the changes received until then. '
+          : '';
+
+        if (updates.length === 0) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `${status}No relationship changes observed.${resume}`,
+              },
+            ],
+          };
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `${status}Observed ${updates.length} relationship change(s):\n\n${changes}${resume}`,
+            },
+          ],
+        };
+      } catch (error) {
+        console.error('Error watching changes:', error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error watching changes: ${describeError(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+}
+
+// Write tools are only registered when the server is not in read-only mode,
+// and every write goes through the write policy
+function registerWriteTools(server: McpServer) {
+  // Write Relationship tool
+  server.registerTool(
+    'write-relationship',
+    {
+      description:
+        'Creates, updates, or deletes a relationship in the SpiceDB system. This tool allows for modifying the permission graph by establishing or removing relationships between resources and subjects. The operation parameter determines whether to create only if not exists (CREATE), upsert (TOUCH), or delete (DELETE) the relationship. A relationship can optionally be caveated by passing caveatName (and caveatContext with any context values fixed at write time), and can be made to expire by passing expiresAt as an RFC 3339 timestamp.',
+      inputSchema: {
+        operation: z.enum(['CREATE', 'TOUCH', 'DELETE']),
+        resourceType: z.string(),
+        resourceId: z.string(),
+        relation: z.string(),
+        subjectType: z.string(),
+        subjectId: z.string(),
+        subjectRelation: z.string().optional(),
+        caveatName: z.string().optional(),
+        caveatContext: z.record(z.any()).optional(),
+        expiresAt: z.string().optional(),
+        ...instanceParams,
+      },
+      outputSchema: writeRelationshipOutput,
+      annotations: { readOnlyHint: false, destructiveHint: true },
+    },
+    async (
+      {
+        operation,
+        resourceType,
+        resourceId,
+        relation,
+        subjectType,
+        subjectId,
+        subjectRelation,
+        caveatName,
+        caveatContext,
+        expiresAt,
+        instance,
+      },
+      extra
+    ) => {
+      try {
+        const target = instances.writable(instance);
+        const spiceDB = target.client;
+
+        enforceWritePolicy(target.writePolicy, [{ resourceType, relation }]);
+
+        if (caveatContext && !caveatName) {
+          throw new Error('caveatContext requires caveatName to be set');
+        }
+
+        const relationship = buildRelationship({
+          resourceType,
+          resourceId,
+          relation,
+          subjectType,
+          subjectId,
+          subjectRelation,
+          caveat: caveatName
+            ? { caveatName, context: caveatContext }
+            : undefined,
+          expiresAt,
+        });
+
+        // Map operation to SpiceDB operation
+        const spiceDBOperation = toSpiceDBOperation(operation);
+
+        const response = await spiceDB.writeRelationships(
+          {
+            updates: [
+              {
+                operation: spiceDBOperation,
+                relationship,
+              },
+            ],
+          },
+          { signal: extra.signal }
+        );
+
+        // Remember the write so later reads in this session see it
+        const writtenAt = response.writtenAt?.token;
+        target.zedTokens.record(extra.sessionId, writtenAt);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Successfully performed operation ${operation} on relationship:
+
+${spiceDB.relationshipToString(relationship)}${
+                writtenAt ? `\n\nWritten at ZedToken: ${writtenAt}` : ''
+              }`,
+            },
+          ],
+          structuredContent: { operation, relationship, writtenAt },
+        };
+      } catch (error) {
+        console.error('Error writing relationship:', error);
+
+        if (error instanceof WritePolicyError) {
+          return writePolicyViolation(error);
+        }
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error writing relationship: ${describeError(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  // Write Relationships tool
+  server.tool(
+    'write-relationships',
+    'Atomically applies an ordered list of relationship updates in a single transaction: either every update is applied or none are. Each update has an operation (CREATE, TOUCH or DELETE) and the relationship fields, with optional caveat and expiration. Optional preconditions are relationship filters that MUST_MATCH or MUST_NOT_MATCH existing relationships for the write to proceed, e.g. "only move bob to viewer if he is still an editor". A failed precondition is reported as a distinct error and nothing is written.',
+    {
+      updates: z
+        .array(
+          z.object({
+            operation: z.enum(['CREATE', 'TOUCH', 'DELETE']),
+            resourceType: z.string(),
+            resourceId: z.string(),
+            relation: z.string(),
+            subjectType: z.string(),
+            subjectId: z.string(),
+            subjectRelation: z.string().optional(),
+            caveatName: z.string().optional(),
+            caveatContext: z.record(z.any()).optional(),
+            expiresAt: z.string().optional(),
+          })
+        )
+        .min(1),
+      preconditions: z
+        .array(
+          z.object({
+            operation: z.enum(['MUST_MATCH', 'MUST_NOT_MATCH']),
+            resourceType: z.string(),
+            resourceId: z.string().optional(),
+            relation: z.string().optional(),
+            subjectType: z.string().optional(),
+            subjectId: z.string().optional(),
+            subjectRelation: z.string().optional(),
+          })
+        )
+        .optional(),
+      ...instanceParams,
+    },
+    { readOnlyHint: false, destructiveHint: true },
+    async ({ updates, preconditions, instance }, extra) => {
+      try {
+        const target = instances.writable(instance);
+        const spiceDB = target.client;
+
+        enforceWritePolicy(target.writePolicy, updates);
+
+        const spiceDBUpdates = updates.map((update) => {
+          if (update.caveatContext && !update.caveatName) {
+            throw new Error('caveatContext requires caveatName to be set');
+          }
+
+          return {
+            operation: toSpiceDBOperation(update.operation),
+            relationship: buildRelationship({
+              ...update,
+              caveat: update.caveatName
+                ? {
+                    caveatName: update.caveatName,
+                    context: update.caveatContext,
+                  }
+                : undefined,
+            }),
+          };
+        });
+
+        const spiceDBPreconditions: Precondition[] = (preconditions || []).map(
+          (precondition) => ({
+            operation: `OPERATION_${precondition.operation}`,
+            filter: buildRelationshipFilter(precondition),
+          })
+        );
+
+        const request: WriteRelationshipsRequest = { updates: spiceDBUpdates };
+        if (spiceDBPreconditions.length > 0) {
+          request.optionalPreconditions = spiceDBPreconditions;
+        }
+
+        const response = await spiceDB.writeRelationships(request, {
+          signal: extra.signal,
+        });
+
+        // Remember the write so later reads in this session see it
+        const writtenAt = response.writtenAt?.token;
+        target.zedTokens.record(extra.sessionId, writtenAt);
+
+        let summary = '';
+        spiceDBUpdates.forEach((update, index) => {
+          summary += `${index + 1}. ${updates[index].operation} ${spiceDB.relationshipToString(
+            update.relationship
+          )}\n`;
+        });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Atomically applied ${updates.length} update(s)${
+                spiceDBPreconditions.length > 0
+                  ? ` after ${spiceDBPreconditions.length} precondition(s) held`
+                  : ''
+              }:
+
+${summary}${writtenAt ? `\nWritten at ZedToken: ${writtenAt}` : ''}`,
+            },
+          ],
+        };
+      } catch (error) {
+        console.error('Error writing relationships:', error);
 
-            count++;
-          }
+        if (error instanceof WritePolicyError) {
+          return writePolicyViolation(error);
         }
 
-        if (count === 0) {
+        if (isPreconditionFailure(error)) {
           return {
             content: [
               {
                 type: 'text',
-                text: 'No relationships found matching the specified filter.',
+                text: `Precondition failed: the existing relationships did not satisfy the MUST_MATCH / MUST_NOT_MATCH preconditions, so none of the updates were applied.
+
+${describeError(error)}`,
               },
             ],
+            isError: true,
+          };
+        }
+
+        const outcome = writeOutcome(error);
+        if (outcome === 'applied') {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `SpiceDB applied all ${
+                  updates.length
+                } update(s), but its response could not be read: ${describeError(
+                  error
+                )}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+        if (outcome === 'unknown') {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Error writing relationships: the call ended before SpiceDB answered, so it is unknown whether the updates were applied. Since the write is atomic, either all of them or none were; read the relationships before retrying.
+
+${describeError(error)}`,
+              },
+            ],
+            isError: true,
           };
         }
 
@@ -563,18 +2828,7 @@ function registerTools(server: McpServer) {
           content: [
             {
               type: 'text',
-              text: `Found ${count} relationship(s):\n\n${relationships}`,
-            },
-          ],
-          resources: relationshipResources,
-        };
-      } catch (error) {
-        console.error('Error reading relationships:', error);
-        return {
-          content: [
-            {
-              type: 'text',
-              text: `Error reading relationships: ${error}`,
+              text: `Error writing relationships (none of the updates were applied): ${describeError(error)}`,
             },
           ],
           isError: true,
@@ -583,102 +2837,110 @@ function registerTools(server: McpServer) {
     }
   );
 
-  // Check Permission tool
+  // Import Relationships tool
   server.tool(
-    'check-permission',
-    'Checks whether a specific subject has a particular permission on a resource. This is the core authorization check function of SpiceDB - determining "Can subject X perform action Y on resource Z?" The tool will return the result of the permission check along with details about the resources and subject involved and tracing information that explains how the authorization decision was made.',
+    'import-relationships',
+    `Imports many relationships at once from newline-separated relationship strings in the format "resourceType:resourceId#relation@subjectType:subjectId[#subjectRelation]", each optionally followed by a caveat [caveatName:{...context}] and an expiration [expiration:2025-12-31T00:00:00Z]. Blank lines and lines starting with // are skipped. Every line is validated before anything is written: if any line is invalid or repeats an earlier relationship, the problems are reported with their line numbers and nothing is written. Relationships are then written in atomic batches of batchSize (default ${defaultImportBatchSize}, max ${maxImportBatchSize}) with TOUCH (default; creates or updates) or CREATE (fails if a relationship in the batch already exists) semantics. Each batch is one write under the server's write policy: batchSize can't exceed its maximum updates per call (SPICEDB_MAX_UPDATES_PER_CALL, default 1000) and defaults to the smaller of the two, while the import as a whole is capped by its maximum imported per call (SPICEDB_MAX_IMPORT_PER_CALL, default 50000). If a batch fails, the batches before it stay written and the response says which lines were imported.`,
     {
-      resourceType: z.string(),
-      resourceId: z.string(),
-      permission: z.string(),
-      subjectType: z.string(),
-      subjectId: z.string(),
-      subjectRelation: z.string().optional(),
+      relationships: z.string(),
+      operation: z.enum(['CREATE', 'TOUCH']).optional(),
+      batchSize: z.number().int().min(1).max(maxImportBatchSize).optional(),
+      ...instanceParams,
     },
-    async ({
-      resourceType,
-      resourceId,
-      permission,
-      subjectType,
-      subjectId,
-      subjectRelation,
-    }) => {
+    { readOnlyHint: false, destructiveHint: true },
+    async ({ relationships, operation, batchSize, instance }, extra) => {
       try {
-        const subject: any = {
-          object: {
-            objectType: subjectType,
-            objectId: subjectId,
-          },
-        };
+        const target = instances.writable(instance);
+        const spiceDB = target.client;
+        const importOperation = operation || 'TOUCH';
+        const size =
+          batchSize ||
+          Math.min(
+            defaultImportBatchSize,
+            target.writePolicy.maxUpdatesPerCall
+          );
+
+        const parsed = parseRelationshipLines(spiceDB, relationships);
+        if (parsed.errors.length > 0) {
+          const listed = parsed.errors.slice(0, maxListedImportErrors);
+          const unlisted = parsed.errors.length - listed.length;
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `No relationships were written: ${
+                  parsed.errors.length
+                } line(s) are invalid.
 
-        if (subjectRelation) {
-          subject.optionalRelation = subjectRelation;
+${listed.join('\n')}${unlisted > 0 ? `\n...and ${unlisted} more` : ''}`,
+              },
+            ],
+            isError: true,
+          };
         }
 
-        const response = (await spiceDB.checkPermission({
-          consistency: spiceDB.fullConsistency(),
-          resource: {
-            objectType: resourceType,
-            objectId: resourceId,
-          },
-          permission,
-          subject,
-          withTracing: true,
-        })) as any;
-
-        const permissionship = response.permissionship;
-        const debugTrace = response.debugTrace;
-
-        let result;
-        switch (permissionship) {
-          case 'PERMISSIONSHIP_NO_PERMISSION': // PERMISSIONSHIP_NO_PERMISSION
-            result = 'NO PERMISSION';
-            break;
-          case 'PERMISSIONSHIP_HAS_PERMISSION': // PERMISSIONSHIP_HAS_PERMISSION
-            result = 'HAS PERMISSION';
-            break;
-          case 'PERMISSIONSHIP_CONDITIONAL_PERMISSION': // PERMISSIONSHIP_CONDITIONAL_PERMISSION
-            result = 'CONDITIONAL PERMISSION';
-            break;
-          default:
-            result = 'UNKNOWN';
+        const imported = parsed.relationships;
+        if (imported.length === 0) {
+          throw new Error('No relationships to import');
         }
 
-        // Generate a human-readable explanation based on the debug trace
-        let explanation = '';
-        if (debugTrace && debugTrace.check) {
-          explanation = generateTraceExplanation(debugTrace.check, 0);
-        }
+        enforceBatchedWritePolicy(
+          target.writePolicy,
+          imported.map(({ relationship }) => ({
+            resourceType: relationship.resource.objectType,
+            relation: relationship.relation,
+          })),
+          size
+        );
 
-        let schemaContext = '';
-        if (debugTrace && debugTrace.schemaUsed) {
-          schemaContext = `\n\nRelevant schema:\n\`\`\`zed\n${debugTrace.schemaUsed}\n\`\`\``;
+        const result = await writeRelationshipBatches(
+          target,
+          extra.sessionId,
+          imported,
+          importOperation,
+          size
+        );
+        if (result.failure) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: describeBatchFailure(result, imported),
+              },
+            ],
+            isError: true,
+          };
         }
 
         return {
           content: [
             {
               type: 'text',
-              text: `Permission check result: ${result}
-
-Resource: ${resourceType}:${resourceId}
-Permission: ${permission}
-Subject: ${subjectType}:${subjectId}${
-                subjectRelation ? '#' + subjectRelation : ''
-              }
-
-Explanation:
-${explanation}${schemaContext}`,
+              text: `Imported ${
+                imported.length
+              } relationship(s) with ${importOperation} in ${
+                result.batchCount
+              } batch(es) of up to ${size}.${
+                result.writtenAt
+                  ? `\n\nWritten at ZedToken: ${result.writtenAt}`
+                  : ''
+              }`,
             },
           ],
         };
       } catch (error) {
-        console.error('Error checking permission:', error);
+        console.error('Error importing relationships:', error);
+
+        if (error instanceof WritePolicyError) {
+          return writePolicyViolation(error);
+        }
         return {
           content: [
             {
               type: 'text',
-              text: `Error checking permission: ${error}`,
+              text: `Error importing relationships (nothing was written): ${describeError(
+                error
+              )}`,
             },
           ],
           isError: true,
@@ -687,86 +2949,166 @@ ${explanation}${schemaContext}`,
     }
   );
 
-  // Lookup Resources tool
+  // Load Validation File tool
   server.tool(
-    'lookup-resources',
-    'Finds all resources of a specified type where a subject has a particular permission. This is useful for answering questions like "What documents can this user view?" or "Which projects can this group manage?" The tool returns a list of resource IDs that match the criteria.',
+    'load-validation-file',
+    `Bootstraps a disposable SpiceDB instance from a validation file, the YAML read by zed validate and the Playground (and produced by export-snapshot). The schema is written first, replacing the current one, and is checked against the write policy like write-schema; then the relationships are imported with TOUCH in atomic batches of batchSize (default ${defaultImportBatchSize}, max ${maxImportBatchSize}). As with import-relationships, the server's maximum updates per call (SPICEDB_MAX_UPDATES_PER_CALL) caps each batch, and its maximum imported per call (SPICEDB_MAX_IMPORT_PER_CALL) caps the whole file. Every relationship line is validated before anything is written; problems are reported with their line numbers in the file. The assertions and validation sections are counted but not checked. Only runs against instances marked disposable (SPICEDB_DISPOSABLE=true, or SPICEDB_<NAME>_DISPOSABLE=true for a named instance).`,
     {
-      resourceType: z.string(),
-      permission: z.string(),
-      subjectType: z.string(),
-      subjectId: z.string(),
-      subjectRelation: z.string().optional(),
+      content: z.string().describe('The validation file YAML'),
+      batchSize: z.number().int().min(1).max(maxImportBatchSize).optional(),
+      ...instanceParams,
     },
-    async ({
-      resourceType,
-      permission,
-      subjectType,
-      subjectId,
-      subjectRelation,
-    }) => {
+    { readOnlyHint: false, destructiveHint: true },
+    async ({ content, batchSize, instance }, extra) => {
+      let schemaWritten = false;
       try {
-        const subject: any = {
-          object: {
-            objectType: subjectType,
-            objectId: subjectId,
-          },
-        };
-
-        if (subjectRelation) {
-          subject.optionalRelation = subjectRelation;
+        const target = instances.disposable(instance);
+        const spiceDB = target.client;
+        const size =
+          batchSize ||
+          Math.min(
+            defaultImportBatchSize,
+            target.writePolicy.maxUpdatesPerCall
+          );
+
+        const file = parseValidationFile(content);
+        if (!file.schema.trim()) {
+          throw new Error('The validation file has no schema');
         }
 
-        const results = await spiceDB.lookupResources({
-          consistency: spiceDB.fullConsistency(),
-          resourceObjectType: resourceType,
-          permission,
-          subject,
-        });
+        const parsed = parseRelationshipLines(
+          spiceDB,
+          file.relationships,
+          file.relationshipsLine
+        );
+        if (parsed.errors.length > 0) {
+          const listed = parsed.errors.slice(0, maxListedImportErrors);
+          const unlisted = parsed.errors.length - listed.length;
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Nothing was written: ${
+                  parsed.errors.length
+                } relationship line(s) are invalid.
 
-        let resources = '';
-        let count = 0;
+${listed.join('\n')}${unlisted > 0 ? `\n...and ${unlisted} more` : ''}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        const imported = parsed.relationships;
+        enforceBatchedWritePolicy(
+          target.writePolicy,
+          imported.map(({ relationship }) => ({
+            resourceType: relationship.resource.objectType,
+            relation: relationship.relation,
+          })),
+          size
+        );
+        enforceSchemaWritePolicy(
+          target.writePolicy,
+          await readCurrentSchema(spiceDB, extra.signal),
+          file.schema
+        );
 
-        for (const result of results) {
-          const resultObj = result as any;
+        let schemaResponse: WriteSchemaResponse;
+        try {
+          schemaResponse = await spiceDB.writeSchema(
+            { schema: file.schema },
+            { signal: extra.signal }
+          );
+        } catch (error) {
+          console.error('Error writing schema:', error);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `${describeSchemaWriteFailure(error, file.schema)}
 
-          // Handle result format directly
-          if (resultObj.resourceObjectId) {
-            resources += `${resourceType}:${resultObj.resourceObjectId}\n`;
-            count++;
-          }
+No relationships were imported.`,
+              },
+            ],
+            isError: true,
+          };
         }
+        schemaWritten = true;
+        target.zedTokens.record(
+          extra.sessionId,
+          schemaResponse.writtenAt?.token
+        );
 
-        if (count === 0) {
+        const outline = schemaOutline(file.schema);
+        const schemaSummary = outline.definitions
+          ? `${outline.definitions.length} definition(s) and ${
+              outline.caveats?.length ?? 0
+            } caveat(s)`
+          : 'the schema';
+
+        const result = await writeRelationshipBatches(
+          target,
+          extra.sessionId,
+          imported,
+          'TOUCH',
+          size
+        );
+        if (result.failure) {
           return {
             content: [
               {
                 type: 'text',
-                text: `No resources of type ${resourceType} found where subject ${subjectType}:${subjectId}${
-                  subjectRelation ? '#' + subjectRelation : ''
-                } has permission ${permission}.`,
+                text: `Wrote ${schemaSummary}, but importing the relationships failed. ${describeBatchFailure(
+                  result,
+                  imported
+                )}`,
               },
             ],
+            isError: true,
           };
         }
 
+        const { assertTrue, assertCaveated, assertFalse } = file.assertions;
+        const assertionCount =
+          assertTrue.length + assertCaveated.length + assertFalse.length;
+        const validationCount = Object.keys(file.validation).length;
+        const writtenAt = result.writtenAt ?? schemaResponse.writtenAt?.token;
+
         return {
           content: [
             {
               type: 'text',
-              text: `Found ${count} resource(s) where subject ${subjectType}:${subjectId}${
-                subjectRelation ? '#' + subjectRelation : ''
-              } has permission ${permission}:\n\n${resources}`,
+              text: `Loaded the validation file into SpiceDB instance "${
+                target.config.name
+              }":
+- Wrote ${schemaSummary}
+- Imported ${imported.length} relationship(s)${
+                result.batchCount > 0
+                  ? ` in ${result.batchCount} batch(es) of up to ${size}`
+                  : ''
+              }
+- Not checked: ${assertionCount} assertion(s) and ${validationCount} expected relations block(s)${
+                writtenAt ? `\n\nWritten at ZedToken: ${writtenAt}` : ''
+              }`,
             },
           ],
         };
       } catch (error) {
-        console.error('Error looking up resources:', error);
+        console.error('Error loading validation file:', error);
+
+        if (error instanceof WritePolicyError) {
+          return writePolicyViolation(error);
+        }
         return {
           content: [
             {
               type: 'text',
-              text: `Error looking up resources: ${error}`,
+              text: `Error loading validation file (${
+                schemaWritten
+                  ? 'the schema was written, no relationships were imported'
+                  : 'nothing was written'
+              }): ${describeError(error)}`,
             },
           ],
           isError: true,
@@ -775,125 +3117,187 @@ ${explanation}${schemaContext}`,
     }
   );
 
-  // Lookup Subjects tool
+  // Delete Relationships tool
   server.tool(
-    'lookup-subjects',
-    'Finds all subjects of a specified type that have a particular permission on a resource. This is useful for answering questions like "Who can edit this document?" or "Which users can manage this project?" The tool returns a list of subject IDs that match the criteria, potentially including wildcard subjects with exclusions.',
+    'delete-relationships',
+    'Deletes every relationship matching a filter, using the same filter fields as read-relationships (at least one is required). By default this is a dry run that only lists the matching relationships and their count; pass confirm: true to actually delete them. For very large deletions, optionalLimit caps how many relationships are deleted in one call; with optionalAllowPartialDeletions: true the call deletes up to the limit and reports that more remain, otherwise it fails if more than the limit match.',
     {
-      resourceType: z.string(),
-      resourceId: z.string(),
-      permission: z.string(),
-      subjectType: z.string(),
+      resourceType: z.string().optional(),
+      resourceId: z.string().optional(),
+      relation: z.string().optional(),
+      subjectType: z.string().optional(),
+      subjectId: z.string().optional(),
       subjectRelation: z.string().optional(),
+      confirm: z.boolean().optional(),
+      optionalLimit: z.number().int().positive().optional(),
+      optionalAllowPartialDeletions: z.boolean().optional(),
+      ...consistencyParams,
+      ...instanceParams,
     },
-    async ({
-      resourceType,
-      resourceId,
-      permission,
-      subjectType,
-      subjectRelation,
-    }) => {
+    { readOnlyHint: false, destructiveHint: true },
+    async (
+      {
+        resourceType,
+        resourceId,
+        relation,
+        subjectType,
+        subjectId,
+        subjectRelation,
+        confirm,
+        optionalLimit,
+        optionalAllowPartialDeletions,
+        consistency,
+        zedToken,
+        instance,
+      },
+      extra
+    ) => {
       try {
-        const lookupRequest: any = {
-          consistency: spiceDB.fullConsistency(),
-          resource: {
-            objectType: resourceType,
-            objectId: resourceId,
-          },
-          permission,
-          subjectObjectType: subjectType,
-        };
+        const target = instances.writable(instance);
+        const spiceDB = target.client;
+
+        if (
+          !resourceType &&
+          !resourceId &&
+          !relation &&
+          !subjectType &&
+          !subjectId &&
+          !subjectRelation
+        ) {
+          throw new Error(
+            'At least one filter field is required to delete relationships'
+          );
+        }
 
-        if (subjectRelation) {
-          lookupRequest.optionalSubjectRelation = subjectRelation;
+        // The subject filter is only built with a subject type; without one
+        // these fields would be dropped and the filter would match everything
+        if ((subjectId || subjectRelation) && !subjectType) {
+          throw new Error(
+            'subjectType is required when deleting by subjectId or subjectRelation'
+          );
         }
 
-        const results = await spiceDB.lookupSubjects(lookupRequest);
+        const deletionLimit = enforceDeletePolicy(
+          target.writePolicy,
+          { resourceType, relation },
+          optionalLimit
+        );
 
-        let subjects = '';
-        let count = 0;
+        const filter = buildRelationshipFilter({
+          resourceType,
+          resourceId,
+          relation,
+          subjectType,
+          subjectId,
+          subjectRelation,
+        });
 
-        for (const result of results) {
-          const resultObj = result as any;
-
-          // Handle new format response
-          if (resultObj.subjectObjectId) {
-            const subjectId = resultObj.subjectObjectId;
-
-            // Check for wildcard with exclusions
-            if (
-              subjectId === '*' &&
-              resultObj.excludedSubjects &&
-              Array.isArray(resultObj.excludedSubjects) &&
-              resultObj.excludedSubjects.length > 0
-            ) {
-              subjects += `${subjectType}:* (with exclusions)\n`;
-              subjects += 'Exclusions:\n';
-
-              for (const excluded of resultObj.excludedSubjects) {
-                subjects += `- ${subjectType}:${excluded.subjectObjectId}\n`;
-              }
-            } else {
-              subjects += `${subjectType}:${subjectId}${
-                subjectRelation ? '#' + subjectRelation : ''
-              }\n`;
+        // Dry run: show what the filter matches without deleting anything
+        if (!confirm) {
+          // Matches are counted as they stream in, keeping only the listed ones
+          const matches = spiceDB.readRelationships(
+            {
+              consistency: consistencyFor(
+                target,
+                extra.sessionId,
+                consistency,
+                zedToken
+              ),
+              relationshipFilter: filter,
+            },
+            { maxResults: maxResults + 1, signal: extra.signal }
+          );
+
+          const maxListed = 100;
+          let relationships = '';
+          let count = 0;
+          let truncated = false;
+
+          for await (const { relationship } of matches) {
+            if (count === maxResults) {
+              truncated = true;
+              break;
+            }
+            if (count < maxListed) {
+              relationships += `${spiceDB.relationshipToString(relationship)}\n`;
             }
-
             count++;
           }
-          // Handle legacy format response
-          else if (resultObj.subject) {
-            const subjectId = resultObj.subject.subjectObjectId;
-
-            // Check for wildcard
-            if (
-              subjectId === '*' &&
-              resultObj.excludedSubjects &&
-              Array.isArray(resultObj.excludedSubjects) &&
-              resultObj.excludedSubjects.length > 0
-            ) {
-              subjects += `${subjectType}:* (with exclusions)\n`;
-              subjects += 'Exclusions:\n';
-
-              for (const excluded of resultObj.excludedSubjects) {
-                subjects += `- ${subjectType}:${excluded.subjectObjectId}\n`;
-              }
-            } else {
-              subjects += `${subjectType}:${subjectId}${
-                subjectRelation ? '#' + subjectRelation : ''
-              }\n`;
-            }
 
-            count++;
+          if (count === 0) {
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: 'Dry run: no relationships match the specified filter, nothing would be deleted.',
+                },
+              ],
+            };
+          }
+
+          let limitNote = '';
+          if (count > deletionLimit) {
+            limitNote = optionalAllowPartialDeletions
+              ? `\nWith a limit of ${deletionLimit}, only the first ${deletionLimit} would be deleted per call.`
+              : `\nThis exceeds the limit of ${deletionLimit} deletions per call; the deletion would fail unless optionalAllowPartialDeletions is true.`;
           }
-        }
 
-        if (count === 0) {
           return {
             content: [
               {
                 type: 'text',
-                text: `No subjects of type ${subjectType} found with permission ${permission} on resource ${resourceType}:${resourceId}.`,
+                text: `Dry run: ${truncated ? 'at least ' : ''}${count} relationship(s) match the filter and would be deleted. Call again with confirm: true to delete them.${limitNote}
+
+${relationships}${
+                  count > maxListed ? `... and ${count - maxListed} more\n` : ''
+                }`,
               },
             ],
           };
         }
 
+        const request: DeleteRelationshipsRequest = {
+          relationshipFilter: filter,
+          optionalLimit: deletionLimit,
+        };
+        if (optionalAllowPartialDeletions !== undefined) {
+          request.optionalAllowPartialDeletions = optionalAllowPartialDeletions;
+        }
+
+        const response = await spiceDB.deleteRelationships(request, {
+          signal: extra.signal,
+        });
+
+        // Remember the deletion so later reads in this session see it
+        const deletedAt = response.deletedAt?.token;
+        target.zedTokens.record(extra.sessionId, deletedAt);
+
+        const partial =
+          response.deletionProgress === 'DELETION_PROGRESS_PARTIAL';
+
         return {
           content: [
             {
               type: 'text',
-              text: `Found ${count} subject(s) with permission ${permission} on resource ${resourceType}:${resourceId}:\n\n${subjects}`,
+              text: `${
+                partial
+                  ? `Partially deleted relationships matching the filter (up to ${deletionLimit}); more remain, call again to continue.`
+                  : 'Successfully deleted all relationships matching the filter.'
+              }${deletedAt ? `\n\nDeleted at ZedToken: ${deletedAt}` : ''}`,
             },
           ],
         };
       } catch (error) {
-        console.error('Error looking up subjects:', error);
+        console.error('Error deleting relationships:', error);
+
+        if (error instanceof WritePolicyError) {
+          return writePolicyViolation(error);
+        }
         return {
           content: [
             {
               type: 'text',
-              text: `Error looking up subjects: ${error}`,
+              text: `Error deleting relationships: ${describeError(error)}`,
             },
           ],
           isError: true,
@@ -902,82 +3306,100 @@ ${explanation}${schemaContext}`,
     }
   );
 
-  // Write Relationship tool
+  // Write Schema tool
   server.tool(
-    'write-relationship',
-    'Creates, updates, or deletes a relationship in the SpiceDB system. This tool allows for modifying the permission graph by establishing or removing relationships between resources and subjects. The operation parameter determines whether to create only if not exists (CREATE), upsert (TOUCH), or delete (DELETE) the relationship.',
+    'write-schema',
+    'Replaces the SpiceDB schema with the provided schema text. By default this only previews the change: it returns a summary of the definitions, relations, permissions and caveats that would be added, removed or changed, plus a unified diff against the current schema. Pass confirm: true to actually write it. If SpiceDB rejects the schema, the compile error is returned with the line and column so it can be fixed. When the server restricts which resource types or relations may be written, the definitions, relations and permissions the change adds, removes or alters must be allowed.',
     {
-      operation: z.enum(['CREATE', 'TOUCH', 'DELETE']),
-      resourceType: z.string(),
-      resourceId: z.string(),
-      relation: z.string(),
-      subjectType: z.string(),
-      subjectId: z.string(),
-      subjectRelation: z.string().optional(),
+      schema: z.string(),
+      confirm: z.boolean().optional(),
+      ...instanceParams,
     },
-    async ({
-      operation,
-      resourceType,
-      resourceId,
-      relation,
-      subjectType,
-      subjectId,
-      subjectRelation,
-    }) => {
+    { readOnlyHint: false, destructiveHint: true },
+    async ({ schema, confirm, instance }, extra) => {
       try {
-        const relationship = spiceDB.createRelationship(
-          resourceType,
-          resourceId,
-          relation,
-          subjectType,
-          subjectId,
-          subjectRelation
-        );
+        const target = instances.writable(instance);
+        const spiceDB = target.client;
 
-        // Map operation to SpiceDB operation
-        let spiceDBOperation;
-        switch (operation) {
-          case 'CREATE':
-            spiceDBOperation = 'OPERATION_CREATE'; // OPERATION_CREATE
-            break;
-          case 'TOUCH':
-            spiceDBOperation = 'OPERATION_TOUCH'; // OPERATION_TOUCH
-            break;
-          case 'DELETE':
-            spiceDBOperation = 'OPERATION_DELETE'; // OPERATION_DELETE
-            break;
-          default:
-            throw new Error(`Unsupported operation: ${operation}`);
+        const currentSchema = await readCurrentSchema(spiceDB, extra.signal);
+        enforceSchemaWritePolicy(target.writePolicy, currentSchema, schema);
+
+        const summary = summarizeSchemaChanges(currentSchema, schema);
+        const diff = unifiedDiff(currentSchema, schema);
+
+        if (!diff) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: 'The provided schema is identical to the current schema; nothing to write.',
+              },
+            ],
+          };
         }
 
-        const response = await spiceDB.writeRelationships({
-          updates: [
-            {
-              operation: spiceDBOperation,
-              relationship,
-            },
-          ],
-        });
+        const preview = `${summary}\n\n\`\`\`diff\n${diff}\`\`\``;
+
+        if (!confirm) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Schema change preview (not yet written). Call again with confirm: true to apply it.
+
+${preview}`,
+              },
+            ],
+          };
+        }
+
+        let response: WriteSchemaResponse;
+        try {
+          response = await spiceDB.writeSchema(
+            { schema },
+            { signal: extra.signal }
+          );
+        } catch (error) {
+          console.error('Error writing schema:', error);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: describeSchemaWriteFailure(error, schema),
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        // Remember the write so later reads in this session see it
+        const writtenAt = response.writtenAt?.token;
+        target.zedTokens.record(extra.sessionId, writtenAt);
 
         return {
           content: [
             {
               type: 'text',
-              text: `Successfully performed operation ${operation} on relationship:
+              text: `Successfully wrote schema.${
+                writtenAt ? `\n\nWritten at ZedToken: ${writtenAt}` : ''
+              }
 
-${resourceType}:${resourceId}#${relation}@${subjectType}:${subjectId}${
-                subjectRelation ? '#' + subjectRelation : ''
-              }`,
+${preview}`,
             },
           ],
         };
       } catch (error) {
-        console.error('Error writing relationship:', error);
+        console.error('Error writing schema:', error);
+
+        if (error instanceof WritePolicyError) {
+          return writePolicyViolation(error);
+        }
+
         return {
           content: [
             {
               type: 'text',
-              text: `Error writing relationship: ${error}`,
+              text: `Error writing schema: ${describeError(error)}`,
             },
           ],
           isError: true,
@@ -0,0 +1,198 @@
+// Named SpiceDB instances (for example dev, staging and prod) served by one MCP server
+import { z } from 'zod';
+import { SpiceDBClient, connectionOptionsFromEnv } from './spicedb-client.js';
+import { ZedTokenTracker } from './consistency.js';
+import { WritePolicy, WritePolicyError } from './write-policy.js';
+import { TransportName, parseTransportName } from './transport.js';
+
+export interface InstanceConfig {
+  name: string;
+  endpoint: string;
+  apiKey: string;
+  useTLS: boolean;
+  transport: TransportName;
+  // Writes to a read-only instance are rejected
+  readOnly: boolean;
+  // A disposable instance, such as a local or test one, may have its schema and
+  // relationships replaced wholesale by load-validation-file
+  disposable: boolean;
+  description?: string;
+}
+
+// A configured instance with its client and per-instance state
+export interface SpiceDBInstance {
+  config: InstanceConfig;
+  client: SpiceDBClient;
+  writePolicy: WritePolicy;
+  // ZedTokens are only meaningful on the instance that issued them
+  zedTokens: ZedTokenTracker;
+}
+
+// Instances with these names are read-only unless configured otherwise
+const productionNames = ['prod', 'production'];
+
+// Tool parameter shared by every tool for choosing the instance
+export const instanceParams = {
+  instance: z
+    .string()
+    .optional()
+    .describe(
+      'Name of the SpiceDB instance to use (see spicedb://instances). Defaults to the default instance.'
+    ),
+};
+
+// Instance names are used in environment variable names, upper-cased with
+// anything other than letters and digits replaced by underscores
+function envPrefix(name: string): string {
+  return `SPICEDB_${name.toUpperCase().replace(/[^A-Z0-9]/g, '_')}_`;
+}
+
+// Load the instance profiles. SPICEDB_INSTANCES lists the instance names, and
+// each is configured with SPICEDB_<NAME>_ENDPOINT, _API_KEY, _USE_TLS,
+// _TRANSPORT, _READ_ONLY, _DISPOSABLE and _DESCRIPTION. Without
+// SPICEDB_INSTANCES a single instance named "default" is built from
+// SPICEDB_ENDPOINT, SPICEDB_API_KEY, SPICEDB_USE_TLS, SPICEDB_TRANSPORT and
+// SPICEDB_DISPOSABLE.
+export function loadInstanceConfigs(): InstanceConfig[] {
+  const names = (process.env.SPICEDB_INSTANCES || '')
+    .split(',')
+    .map((name) => name.trim())
+    .filter((name) => name !== '');
+
+  if (names.length === 0) {
+    return [
+      {
+        name: 'default',
+        ...connectionOptionsFromEnv(),
+        readOnly: false,
+        disposable: process.env.SPICEDB_DISPOSABLE === 'true',
+      },
+    ];
+  }
+
+  return names.map((name) => {
+    const prefix = envPrefix(name);
+    const endpoint = process.env[`${prefix}ENDPOINT`];
+    if (!endpoint) {
+      throw new Error(
+        `${prefix}ENDPOINT must be set for SpiceDB instance "${name}"`
+      );
+    }
+
+    const readOnly = process.env[`${prefix}READ_ONLY`];
+    return {
+      name,
+      endpoint,
+      apiKey: process.env[`${prefix}API_KEY`] || '',
+      useTLS: process.env[`${prefix}USE_TLS`] === 'true',
+      transport: parseTransportName(
+        process.env[`${prefix}TRANSPORT`],
+        `${prefix}TRANSPORT`
+      ),
+      readOnly:
+        readOnly === undefined
+          ? productionNames.includes(name.toLowerCase())
+          : readOnly === 'true',
+      disposable: process.env[`${prefix}DISPOSABLE`] === 'true',
+      description: process.env[`${prefix}DESCRIPTION`],
+    };
+  });
+}
+
+// Holds a client per configured instance and resolves the instance a tool call targets
+export class InstanceRegistry {
+  private instances = new Map<string, SpiceDBInstance>();
+  public readonly defaultName: string;
+
+  constructor(
+    configs: InstanceConfig[],
+    basePolicy: WritePolicy,
+    defaultName?: string
+  ) {
+    for (const config of configs) {
+      if (this.instances.has(config.name)) {
+        throw new Error(
+          `SpiceDB instance "${config.name}" is configured twice`
+        );
+      }
+
+      const client = new SpiceDBClient(config);
+      console.error(
+        `SpiceDB instance "${config.name}": ${client.getEndpoint()} over ${client.getTransportName()} (TLS ${
+          client.usesTLS() ? 'enabled' : 'disabled'
+        }${config.readOnly ? ', read-only' : ''}${
+          config.disposable ? ', disposable' : ''
+        })`
+      );
+
+      this.instances.set(config.name, {
+        config,
+        client,
+        writePolicy: {
+          ...basePolicy,
+          readOnly: basePolicy.readOnly || config.readOnly,
+        },
+        zedTokens: new ZedTokenTracker(),
+      });
+    }
+
+    this.defaultName = defaultName || configs[0].name;
+    if (!this.instances.has(this.defaultName)) {
+      throw new Error(
+        `Default SpiceDB instance "${this.defaultName}" is not configured`
+      );
+    }
+  }
+
+  // Resolve an instance by name, falling back to the default instance
+  public get(name?: string): SpiceDBInstance {
+    const instance = this.instances.get(name || this.defaultName);
+    if (!instance) {
+      throw new Error(
+        `Unknown SpiceDB instance "${name}" (available: ${Array.from(
+          this.instances.keys()
+        ).join(', ')})`
+      );
+    }
+    return instance;
+  }
+
+  // Resolve an instance for a write, rejecting read-only instances
+  public writable(name?: string): SpiceDBInstance {
+    const instance = this.get(name);
+    if (instance.writePolicy.readOnly) {
+      throw new WritePolicyError(
+        `SpiceDB instance "${instance.config.name}" is read-only`
+      );
+    }
+    return instance;
+  }
+
+  // Resolve an instance whose data may be replaced wholesale, rejecting any
+  // instance not explicitly marked disposable
+  public disposable(name?: string): SpiceDBInstance {
+    const instance = this.writable(name);
+    if (!instance.config.disposable) {
+      throw new WritePolicyError(
+        `SpiceDB instance "${instance.config.name}" is not marked disposable (set SPICEDB_DISPOSABLE, or SPICEDB_<NAME>_DISPOSABLE for a named instance, to true to allow it)`
+      );
+    }
+    return instance;
+  }
+
+  public list(): SpiceDBInstance[] {
+    return Array.from(this.instances.values());
+  }
+
+  // Whether any instance accepts writes, so the write tools are worth registering
+  public hasWritableInstance(): boolean {
+    return this.list().some((instance) => !instance.writePolicy.readOnly);
+  }
+
+  // Release the per-session state of a session that has ended
+  public forgetSession(sessionId: string) {
+    for (const instance of this.instances.values()) {
+      instance.zedTokens.forget(sessionId);
+    }
+  }
+}
@@ -0,0 +1,242 @@
+// Page-at-a-time reads for the list tools, with opaque continuation cursors
+import { createHash } from 'node:crypto';
+import { z } from 'zod';
+import {
+  SpiceDBClient,
+  StreamOptions,
+  collectResults,
+} from './spicedb-client.js';
+import {
+  Consistency,
+  LookupResourcesRequest,
+  LookupResourcesResponse,
+  LookupSubjectsRequest,
+  LookupSubjectsResponse,
+  ReadRelationshipsRequest,
+  ReadRelationshipsResponse,
+} from './api-types.js';
+import { SpiceDBInstance } from './instances.js';
+
+export const defaultPageLimit = 100;
+export const maxPageLimit = 1000;
+
+// Tool parameters shared by the list tools for paging through results
+export const paginationParams = {
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .max(maxPageLimit)
+    .optional()
+    .describe(
+      `Maximum number of results in this page (default ${defaultPageLimit}, at most ${maxPageLimit})`
+    ),
+  cursor: z
+    .string()
+    .optional()
+    .describe(
+      'Cursor returned by a previous page; pass it with the same other parameters to get the next page'
+    ),
+};
+
+// The streaming reads that can be paged, with their requests (less the
+// fields paging sets) and results
+interface PagedCalls {
+  readRelationships: {
+    request: Omit<
+      ReadRelationshipsRequest,
+      'consistency' | 'optionalLimit' | 'optionalCursor'
+    >;
+    result: ReadRelationshipsResponse;
+  };
+  lookupResources: {
+    request: Omit<
+      LookupResourcesRequest,
+      'consistency' | 'optionalLimit' | 'optionalCursor'
+    >;
+    result: LookupResourcesResponse;
+  };
+  lookupSubjects: {
+    request: Omit<LookupSubjectsRequest, 'consistency'>;
+    result: LookupSubjectsResponse;
+  };
+}
+
+export type PagedCall = keyof PagedCalls;
+
+type PagedRequest<C extends PagedCall> = PagedCalls[C]['request'] & {
+  consistency: Consistency;
+  optionalCursor?: { token: string };
+};
+
+const pagedStreams: {
+  [C in PagedCall]: (
+    client: SpiceDBClient,
+    request: PagedRequest<C>,
+    options: StreamOptions
+  ) => AsyncGenerator<PagedCalls[C]['result']>;
+} = {
+  readRelationships: (client, request, options) =>
+    client.readRelationships(request, options),
+  lookupResources: (client, request, options) =>
+    client.lookupResources(request, options),
+  lookupSubjects: (client, request, options) =>
+    client.lookupSubjects(request, options),
+};
+
+// What a cursor carries between pages. Later pages are read at the snapshot
+// the first page was read at, so results don't shift while paging.
+interface PageCursor {
+  // Hash of the query the cursor was issued for
+  query: string;
+  snapshot?: string;
+  // SpiceDB's afterResultCursor for the last result returned
+  after?: string;
+  // Results returned so far; calls SpiceDB can't resume from a cursor skip this many
+  offset: number;
+}
+
+export interface Page<T = unknown> {
+  results: T[];
+  // Results returned by earlier pages
+  offset: number;
+  // Cursor for the next page, when more results are available
+  next?: string;
+}
+
+// The revision a result was read at
+function snapshotOf(
+  result:
+    ReadRelationshipsResponse | LookupResourcesResponse | LookupSubjectsResponse
+): string | undefined {
+  return ('relationship' in result ? result.readAt : result.lookedUpAt)?.token;
+}
+
+// Cursors are only valid for the query, and the instance, they were issued for
+function queryHash(instance: string, call: PagedCall, request: object): string {
+  return createHash('sha256')
+    .update(JSON.stringify({ instance, call, request }))
+    .digest('hex')
+    .slice(0, 16);
+}
+
+function encodeCursor(cursor: PageCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+function decodeCursor(value: string, query: string): PageCursor {
+  let cursor: PageCursor;
+  try {
+    cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+  } catch {
+    throw new Error('Invalid cursor');
+  }
+
+  if (typeof cursor?.offset !== 'number') {
+    throw new Error('Invalid cursor');
+  }
+  if (cursor.query !== query) {
+    throw new Error(
+      'The cursor was issued for a different query; pass the same parameters as the call that returned it'
+    );
+  }
+  return cursor;
+}
+
+async function* skipResults<T>(
+  stream: AsyncIterable<T>,
+  count: number
+): AsyncGenerator<T> {
+  let skipped = 0;
+  for await (const result of stream) {
+    if (skipped < count) {
+      skipped++;
+    } else {
+      yield result;
+    }
+  }
+}
+
+// Read one page of a streaming call. The request is given without consistency
+// or cursor fields; consistency applies to the first page only. LookupSubjects
+// has no cursors, so its later pages re-read the snapshot and skip the results
+// already returned.
+export async function readPage<C extends PagedCall>(
+  target: SpiceDBInstance,
+  call: C,
+  request: PagedCalls[C]['request'],
+  consistency: Consistency,
+  options: { limit?: number; cursor?: string; signal?: AbortSignal }
+): Promise<Page<PagedCalls[C]['result']>> {
+  const limit = options.limit ?? defaultPageLimit;
+  const client = target.client;
+  const query = queryHash(target.config.name, call, request);
+  const cursor = options.cursor
+    ? decodeCursor(options.cursor, query)
+    : undefined;
+
+  const params: PagedRequest<C> = {
+    ...request,
+    consistency: cursor?.snapshot
+      ? client.atExactSnapshot(cursor.snapshot)
+      : consistency,
+  };
+  if (cursor?.after) {
+    params.optionalCursor = { token: cursor.after };
+  }
+
+  const offset = cursor?.offset ?? 0;
+  const skip = cursor && !cursor.after ? offset : 0;
+
+  // One result past the page tells whether another page exists
+  const { results, truncated } = await collectResults(
+    skipResults(
+      pagedStreams[call](client, params, {
+        pageSize: Math.min(limit + 1, maxPageLimit),
+        maxResults: skip + limit + 1,
+        signal: options.signal,
+      }),
+      skip
+    ),
+    limit
+  );
+
+  if (!truncated) {
+    return { results, offset };
+  }
+
+  const last = results[results.length - 1];
+  const first = results[0];
+  return {
+    results,
+    offset,
+    next: encodeCursor({
+      query,
+      snapshot: cursor?.snapshot ?? snapshotOf(first),
+      after:
+        call === 'lookupSubjects' ? undefined : last.afterResultCursor?.token,
+      offset: offset + results.length,
+    }),
+  };
+}
+
+// Summarize a page, saying explicitly whether more results are available
+export function describePage(page: Page, noun: string): string {
+  const count = page.results.length;
+  const range =
+    page.offset > 0 ? ` (${page.offset + 1}-${page.offset + count})` : '';
+
+  if (page.next) {
+    return `Showing ${count}${range} of at least ${
+      page.offset + count + 1
+    } ${noun}; more available.`;
+  }
+  return `Showing ${count}${range} of ${page.offset + count} ${noun}.`;
+}
+
+// Tell the caller how to get the next page, after a listing ending in a newline
+export function nextPageHint(page: Page): string {
+  return page.next
+    ? `\nTo get the next page, call again with the same parameters and cursor: ${page.next}`
+    : '';
+}
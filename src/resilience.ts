@@ -0,0 +1,308 @@
+// Deadlines, retries and a circuit breaker around a SpiceDB transport
+import { SpiceDBError, grpcCode } from './errors.js';
+import { SpiceDBTransport } from './transport.js';
+
+export interface ResilienceOptions {
+  // Deadline for a unary call, and the longest a stream may go without a message
+  timeoutMs: number;
+  // Times a failed read is retried
+  maxRetries: number;
+  // Backoff before the first retry; it doubles with each retry, with full jitter
+  retryBaseMs: number;
+  // Consecutive failures that open the circuit
+  breakerThreshold: number;
+  // How long an open circuit fails calls before letting one through to try again
+  breakerCooldownMs: number;
+}
+
+// Calls that only read, so retrying them can't apply a change twice
+const idempotentPaths = new Set([
+  '/v1/schema/read',
+  '/v1/relationships/read',
+  '/v1/permissions/check',
+  '/v1/permissions/checkbulk',
+  '/v1/permissions/expand',
+  '/v1/permissions/resources',
+  '/v1/permissions/subjects',
+  '/v1/watch',
+]);
+
+// Watch streams stay quiet until something changes, and are bounded by the caller
+const untimedPaths = new Set(['/v1/watch']);
+
+function nonNegativeInt(value: string | undefined, fallback: number): number {
+  const parsed = parseInt(value || '', 10);
+  return parsed >= 0 ? parsed : fallback;
+}
+
+// Read the options from SPICEDB_REQUEST_TIMEOUT_MS, SPICEDB_MAX_RETRIES,
+// SPICEDB_CIRCUIT_BREAKER_THRESHOLD and SPICEDB_CIRCUIT_BREAKER_COOLDOWN_MS
+export function resilienceOptionsFromEnv(): ResilienceOptions {
+  return {
+    timeoutMs: nonNegativeInt(process.env.SPICEDB_REQUEST_TIMEOUT_MS, 30000),
+    maxRetries: nonNegativeInt(process.env.SPICEDB_MAX_RETRIES, 2),
+    retryBaseMs: 200,
+    breakerThreshold: nonNegativeInt(
+      process.env.SPICEDB_CIRCUIT_BREAKER_THRESHOLD,
+      5
+    ),
+    breakerCooldownMs: nonNegativeInt(
+      process.env.SPICEDB_CIRCUIT_BREAKER_COOLDOWN_MS,
+      30000
+    ),
+  };
+}
+
+// Fails calls fast after repeated transient failures, so an unhealthy SpiceDB
+// isn't kept busy by retries. Once the cooldown passes, one call is let through
+// to test whether it has recovered.
+class CircuitBreaker {
+  private failures = 0;
+  private openUntil = 0;
+  private probing = false;
+
+  constructor(
+    private target: string,
+    private threshold: number,
+    private cooldownMs: number
+  ) {}
+
+  // Throw if the circuit is open; otherwise the call may proceed
+  public check() {
+    if (this.threshold === 0 || this.failures < this.threshold) {
+      return;
+    }
+
+    const remaining = this.openUntil - Date.now();
+    if (remaining > 0 || this.probing) {
+      throw new SpiceDBError({
+        code: grpcCode.UNAVAILABLE,
+        message: `circuit open after ${
+          this.failures
+        } consecutive failures calling ${this.target}; retrying in ${Math.ceil(
+          Math.max(remaining, 0) / 1000
+        )}s`,
+      });
+    }
+    this.probing = true;
+  }
+
+  public succeeded() {
+    this.failures = 0;
+    this.probing = false;
+  }
+
+  public failed(error: unknown) {
+    this.probing = false;
+    if (!(error instanceof SpiceDBError && error.transient)) {
+      // SpiceDB answered, just not with success, so it is healthy
+      if (error instanceof SpiceDBError && error.code !== grpcCode.CANCELLED) {
+        this.failures = 0;
+      }
+      return;
+    }
+
+    this.failures++;
+    if (this.threshold > 0 && this.failures >= this.threshold) {
+      this.openUntil = Date.now() + this.cooldownMs;
+    }
+  }
+}
+
+// Wait before a retry, or give up early if the caller cancels
+function backoff(
+  attempt: number,
+  baseMs: number,
+  signal?: AbortSignal
+): Promise<void> {
+  const delay = Math.random() * baseMs * 2 ** attempt;
+  return new Promise((resolve) => {
+    if (signal?.aborted) {
+      return resolve();
+    }
+    const timer = setTimeout(done, delay);
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    }
+    signal?.addEventListener('abort', done);
+  });
+}
+
+// Tracks why one attempt's calls were aborted: the caller cancelled or the deadline passed
+class Attempt {
+  public readonly controller = new AbortController();
+  private timer?: ReturnType<typeof setTimeout>;
+  private timedOut = false;
+  private onAbort = () => this.controller.abort();
+
+  constructor(
+    private timeoutMs: number,
+    private signal?: AbortSignal
+  ) {
+    signal?.addEventListener('abort', this.onAbort);
+    if (signal?.aborted) {
+      this.controller.abort();
+    }
+  }
+
+  // Start (or restart) the deadline
+  public arm() {
+    this.disarm();
+    if (this.timeoutMs > 0) {
+      this.timer = setTimeout(() => {
+        this.timedOut = true;
+        this.controller.abort();
+      }, this.timeoutMs);
+    }
+  }
+
+  public disarm() {
+    clearTimeout(this.timer);
+  }
+
+  public end() {
+    this.disarm();
+    this.signal?.removeEventListener('abort', this.onAbort);
+  }
+
+  // The error to report for a failed attempt. Aborts surface from the
+  // transports as various errors, so they are recognized by their cause.
+  public failure(error: unknown): unknown {
+    if (this.signal?.aborted) {
+      return new SpiceDBError({
+        code: grpcCode.CANCELLED,
+        message: 'request cancelled',
+      });
+    }
+    if (this.timedOut) {
+      return new SpiceDBError({
+        code: grpcCode.DEADLINE_EXCEEDED,
+        message: `no response within ${this.timeoutMs}ms`,
+      });
+    }
+    return error;
+  }
+}
+
+// Transport that adds deadlines, retries for reads and a circuit breaker to
+// another transport
+export class ResilientTransport implements SpiceDBTransport {
+  private breaker: CircuitBreaker;
+
+  constructor(
+    private inner: SpiceDBTransport,
+    private options: ResilienceOptions
+  ) {
+    this.breaker = new CircuitBreaker(
+      inner.target,
+      options.breakerThreshold,
+      options.breakerCooldownMs
+    );
+  }
+
+  get name() {
+    return this.inner.name;
+  }
+
+  get target() {
+    return this.inner.target;
+  }
+
+  get tls() {
+    return this.inner.tls;
+  }
+
+  private shouldRetry(path: string, error: unknown, attempt: number): boolean {
+    return (
+      attempt < this.options.maxRetries &&
+      idempotentPaths.has(path) &&
+      error instanceof SpiceDBError &&
+      error.transient
+    );
+  }
+
+  async request(path: string, body?: any, signal?: AbortSignal) {
+    for (let attempt = 0; ; attempt++) {
+      this.breaker.check();
+
+      const current = new Attempt(this.options.timeoutMs, signal);
+      try {
+        current.arm();
+        const response = await this.inner.request(
+          path,
+          body,
+          current.controller.signal
+        );
+        this.breaker.succeeded();
+        return response;
+      } catch (error) {
+        const failure = current.failure(error);
+        this.breaker.failed(failure);
+        if (!this.shouldRetry(path, failure, attempt)) {
+          throw failure;
+        }
+        console.error(`Retrying ${path} after error: ${failure}`);
+      } finally {
+        current.end();
+      }
+
+      await backoff(attempt, this.options.retryBaseMs, signal);
+    }
+  }
+
+  // A stream is only retried if it failed before its first message, since
+  // the caller has already seen what came before
+  async *stream(
+    path: string,
+    body: any,
+    signal: AbortSignal
+  ): AsyncGenerator<any> {
+    const timed = !untimedPaths.has(path);
+
+    for (let attempt = 0; ; attempt++) {
+      this.breaker.check();
+
+      const current = new Attempt(this.options.timeoutMs, signal);
+      let received = false;
+      try {
+        if (timed) {
+          current.arm();
+        }
+        for await (const message of this.inner.stream(
+          path,
+          body,
+          current.controller.signal
+        )) {
+          if (!received) {
+            received = true;
+            this.breaker.succeeded();
+          }
+
+          // Time spent by the caller between messages doesn't count
+          current.disarm();
+          yield message;
+          if (timed) {
+            current.arm();
+          }
+        }
+        if (!received) {
+          this.breaker.succeeded();
+        }
+        return;
+      } catch (error) {
+        const failure = current.failure(error);
+        this.breaker.failed(failure);
+        if (received || !this.shouldRetry(path, failure, attempt)) {
+          throw failure;
+        }
+        console.error(`Retrying ${path} after error: ${failure}`);
+      } finally {
+        current.end();
+      }
+
+      await backoff(attempt, this.options.retryBaseMs, signal);
+    }
+  }
+}
@@ -0,0 +1,261 @@
+// Helpers for previewing a schema change before it is written to SpiceDB
+import {
+  SchemaAST,
+  expressionToString,
+  parseSchema,
+  subjectTypeToString,
+} from './schema-parser.js';
+
+// A named member of a schema: a definition, caveat, relation or permission
+interface SchemaMember {
+  kind: 'definition' | 'caveat' | 'relation' | 'permission';
+  name: string;
+  body: string;
+}
+
+// Produce a unified diff of two texts, with a few lines of context around each change
+export function unifiedDiff(
+  oldText: string,
+  newText: string,
+  oldLabel = 'current',
+  newLabel = 'proposed',
+  context = 3
+): string {
+  const a = oldText.split('\n');
+  const b = newText.split('\n');
+
+  // Longest common subsequence table, filled from the end of both texts
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () =>
+    new Array(b.length + 1).fill(0)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] =
+        a[i] === b[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  // Walk the table to get an edit script of kept, removed and added lines
+  const ops: Array<{ type: ' ' | '-' | '+'; line: string }> = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      ops.push({ type: ' ', line: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      ops.push({ type: '-', line: a[i++] });
+    } else {
+      ops.push({ type: '+', line: b[j++] });
+    }
+  }
+  while (i < a.length) ops.push({ type: '-', line: a[i++] });
+  while (j < b.length) ops.push({ type: '+', line: b[j++] });
+
+  if (ops.every((op) => op.type === ' ')) {
+    return '';
+  }
+
+  // Group changes into hunks, merging ones whose context overlaps
+  let output = `--- ${oldLabel}\n+++ ${newLabel}\n`;
+  let index = 0;
+  while (index < ops.length) {
+    if (ops[index].type === ' ') {
+      index++;
+      continue;
+    }
+
+    const start = Math.max(0, index - context);
+    let end = index;
+    let lastChange = index;
+    while (end < ops.length && end - lastChange <= context * 2) {
+      if (ops[end].type !== ' ') lastChange = end;
+      end++;
+    }
+    end = Math.min(ops.length, lastChange + context + 1);
+
+    // Line numbers at the start of the hunk in both texts
+    let oldLine = 1;
+    let newLine = 1;
+    for (let k = 0; k < start; k++) {
+      if (ops[k].type !== '+') oldLine++;
+      if (ops[k].type !== '-') newLine++;
+    }
+
+    const hunk = ops.slice(start, end);
+    const oldCount = hunk.filter((op) => op.type !== '+').length;
+    const newCount = hunk.filter((op) => op.type !== '-').length;
+
+    output += `@@ -${oldLine},${oldCount} +${newLine},${newCount} @@\n`;
+    for (const op of hunk) {
+      output += `${op.type}${op.line}\n`;
+    }
+
+    index = end;
+  }
+
+  return output;
+}
+
+// Collect the definitions and caveats in a schema, along with the relations
+// and permissions declared inside each definition
+function extractMembers(schemaText: string): Map<string, SchemaMember> {
+  return membersOf(parseSchema(schemaText));
+}
+
+function membersOf(ast: SchemaAST): Map<string, SchemaMember> {
+  const members = new Map<string, SchemaMember>();
+
+  for (const definition of ast.definitions) {
+    members.set(`definition ${definition.name}`, {
+      kind: 'definition',
+      name: definition.name,
+      body: '',
+    });
+
+    for (const relation of definition.relations) {
+      members.set(`relation ${definition.name}#${relation.name}`, {
+        kind: 'relation',
+        name: `${definition.name}#${relation.name}`,
+        body: relation.subjectTypes.map(subjectTypeToString).join(' | '),
+      });
+    }
+
+    for (const permission of definition.permissions) {
+      members.set(`permission ${definition.name}#${permission.name}`, {
+        kind: 'permission',
+        name: `${definition.name}#${permission.name}`,
+        body: expressionToString(permission.expression),
+      });
+    }
+  }
+
+  // Whitespace in the CEL expression doesn't change the caveat
+  for (const caveat of ast.caveats) {
+    members.set(`caveat ${caveat.name}`, {
+      kind: 'caveat',
+      name: caveat.name,
+      body: `${caveat.parameters
+        .map((parameter) => `${parameter.name} ${parameter.type}`)
+        .join(', ')} ${caveat.expression.replace(/\s+/g, ' ')}`,
+    });
+  }
+
+  return members;
+}
+
+// The parts of a schema a change touches
+export interface SchemaChange {
+  // Definitions added or removed, or with a relation or permission touched
+  definitions: string[];
+  // Relations and permissions, as definition#name, that are added, removed or
+  // changed, or whose relation allows a subject with a changed caveat
+  relations: string[];
+}
+
+// Work out which definitions, relations and permissions a schema change
+// touches. A caveat is part of every relation that allows subjects with it,
+// so changing the caveat counts as changing those relations.
+export function schemaChanges(oldText: string, newText: string): SchemaChange {
+  const asts = [parseSchema(oldText), parseSchema(newText)];
+  const [before, after] = asts.map(membersOf);
+
+  const changed: SchemaMember[] = [];
+  for (const [key, member] of after) {
+    if (before.get(key)?.body !== member.body) {
+      changed.push(member);
+    }
+  }
+  for (const [key, member] of before) {
+    if (!after.has(key)) {
+      changed.push(member);
+    }
+  }
+
+  const definitions = new Set<string>();
+  const relations = new Set<string>();
+  for (const member of changed) {
+    if (member.kind === 'definition') {
+      definitions.add(member.name);
+    } else if (member.kind !== 'caveat') {
+      definitions.add(member.name.split('#')[0]);
+      relations.add(member.name);
+    } else {
+      for (const ast of asts) {
+        for (const definition of ast.definitions) {
+          for (const relation of definition.relations) {
+            if (
+              relation.subjectTypes.some(
+                (allowed) => allowed.caveat === member.name
+              )
+            ) {
+              definitions.add(definition.name);
+              relations.add(`${definition.name}#${relation.name}`);
+            }
+          }
+        }
+      }
+    }
+  }
+
+  return {
+    definitions: [...definitions].sort(),
+    relations: [...relations].sort(),
+  };
+}
+
+// Summarize which definitions, relations, permissions and caveats a schema change adds, removes or changes
+export function summarizeSchemaChanges(
+  oldText: string,
+  newText: string
+): string {
+  let before: Map<string, SchemaMember>;
+  let after: Map<string, SchemaMember>;
+  try {
+    before = extractMembers(oldText);
+    after = extractMembers(newText);
+  } catch (error) {
+    return `Could not summarize changes: ${
+      error instanceof Error ? error.message : error
+    }`;
+  }
+
+  const added: string[] = [];
+  const removed: string[] = [];
+  const changed: string[] = [];
+
+  for (const [key, member] of after) {
+    const previous = before.get(key);
+    if (!previous) {
+      added.push(`${member.kind} ${member.name}`);
+    } else if (previous.body !== member.body) {
+      changed.push(`${member.kind} ${member.name}`);
+    }
+  }
+
+  for (const [key, member] of before) {
+    if (!after.has(key)) {
+      removed.push(`${member.kind} ${member.name}`);
+    }
+  }
+
+  if (added.length + removed.length + changed.length === 0) {
+    return 'No definitions, relations, permissions or caveats changed.';
+  }
+
+  let summary = '';
+  if (added.length > 0) {
+    summary += `Added:\n${added.map((item) => `  + ${item}`).join('\n')}\n`;
+  }
+  if (removed.length > 0) {
+    summary += `Removed:\n${removed.map((item) => `  - ${item}`).join('\n')}\n`;
+  }
+  if (changed.length > 0) {
+    summary += `Changed:\n${changed.map((item) => `  ~ ${item}`).join('\n')}\n`;
+  }
+
+  return summary.trimEnd();
+}
@@ -0,0 +1,214 @@
+// Render a parsed schema as a Mermaid or Graphviz DOT diagram
+import {
+  PermissionExpression,
+  SchemaAST,
+  subjectTypeToString,
+} from './schema-parser.js';
+
+export type GraphFormat = 'mermaid' | 'dot';
+
+export interface SchemaGraphOptions {
+  format: GraphFormat;
+  // Only include this definition and the definitions within `depth` edges of it
+  focus?: string;
+  depth?: number;
+}
+
+// An edge between two definitions: a relation to one of its subject types, or
+// a permission walking a relation with an arrow (parent->view)
+interface GraphEdge {
+  from: string;
+  to: string;
+  label: string;
+  kind: 'relation' | 'arrow';
+}
+
+// Collect every arrow used in a permission expression
+function collectArrows(
+  expression: PermissionExpression
+): Array<{ relation: string; permission: string; fn: string }> {
+  switch (expression.kind) {
+    case 'arrow':
+      return [
+        {
+          relation: expression.relation,
+          permission: expression.permission,
+          fn: expression.function,
+        },
+      ];
+    case 'union':
+    case 'intersection':
+    case 'exclusion':
+      return [
+        ...collectArrows(expression.left),
+        ...collectArrows(expression.right),
+      ];
+    default:
+      return [];
+  }
+}
+
+function buildEdges(ast: SchemaAST): GraphEdge[] {
+  const edges: GraphEdge[] = [];
+
+  for (const definition of ast.definitions) {
+    for (const relation of definition.relations) {
+      for (const subjectType of relation.subjectTypes) {
+        edges.push({
+          from: definition.name,
+          to: subjectType.type,
+          label: `${relation.name}: ${subjectTypeToString(subjectType)}`,
+          kind: 'relation',
+        });
+      }
+    }
+
+    for (const permission of definition.permissions) {
+      for (const arrow of collectArrows(permission.expression)) {
+        const relation = definition.relations.find(
+          (candidate) => candidate.name === arrow.relation
+        );
+        const arrowText =
+          arrow.fn === 'all'
+            ? `${arrow.relation}.all(${arrow.permission})`
+            : `${arrow.relation}->${arrow.permission}`;
+
+        // An arrow follows the relation to each of its subject types
+        const targets = new Set(
+          (relation?.subjectTypes || []).map((subjectType) => subjectType.type)
+        );
+        for (const target of targets) {
+          edges.push({
+            from: definition.name,
+            to: target,
+            label: `${permission.name}: ${arrowText}`,
+            kind: 'arrow',
+          });
+        }
+      }
+    }
+  }
+
+  return edges;
+}
+
+// Find the definitions within `depth` edges of the focused definition, following edges in both directions
+function neighborhood(
+  edges: GraphEdge[],
+  focus: string,
+  depth: number
+): Set<string> {
+  const included = new Set([focus]);
+  let frontier = [focus];
+
+  for (let level = 0; level < depth && frontier.length > 0; level++) {
+    const next: string[] = [];
+    for (const edge of edges) {
+      for (const [from, to] of [
+        [edge.from, edge.to],
+        [edge.to, edge.from],
+      ]) {
+        if (frontier.includes(from) && !included.has(to)) {
+          included.add(to);
+          next.push(to);
+        }
+      }
+    }
+    frontier = next;
+  }
+
+  return included;
+}
+
+// Mermaid node ids can't contain slashes or be keywords such as "end", so
+// namespaced types are rewritten and every id is prefixed
+function mermaidId(name: string): string {
+  return `def_${name.replace(/[^a-zA-Z0-9_]/g, '_')}`;
+}
+
+function mermaidLabel(text: string): string {
+  return `"${text.replace(/"/g, '#quot;')}"`;
+}
+
+function renderMermaid(
+  nodes: string[],
+  edges: GraphEdge[],
+  focus?: string
+): string {
+  let output = 'flowchart LR\n';
+
+  for (const node of nodes) {
+    output += `  ${mermaidId(node)}[${mermaidLabel(node)}]\n`;
+  }
+
+  for (const edge of edges) {
+    const arrow = edge.kind === 'arrow' ? '-.->' : '-->';
+    output += `  ${mermaidId(edge.from)} ${arrow}|${mermaidLabel(
+      edge.label
+    )}| ${mermaidId(edge.to)}\n`;
+  }
+
+  if (focus) {
+    output += `  style ${mermaidId(focus)} stroke-width:3px\n`;
+  }
+
+  return output;
+}
+
+function dotString(text: string): string {
+  return `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+function renderDot(
+  nodes: string[],
+  edges: GraphEdge[],
+  focus?: string
+): string {
+  let output = 'digraph schema {\n  rankdir=LR;\n  node [shape=box];\n';
+
+  for (const node of nodes) {
+    output += `  ${dotString(node)}${node === focus ? ' [penwidth=3]' : ''};\n`;
+  }
+
+  for (const edge of edges) {
+    const style =
+      edge.kind === 'arrow' ? ', style=dashed, color=blue, fontcolor=blue' : '';
+    output += `  ${dotString(edge.from)} -> ${dotString(
+      edge.to
+    )} [label=${dotString(edge.label)}${style}];\n`;
+  }
+
+  output += '}\n';
+  return output;
+}
+
+// Render the schema as a diagram where nodes are definitions, solid edges are
+// relations labeled with their subject types, and dashed edges are permission arrows
+export function renderSchemaGraph(
+  ast: SchemaAST,
+  options: SchemaGraphOptions
+): string {
+  let edges = buildEdges(ast);
+  let nodes = Array.from(
+    new Set([
+      ...ast.definitions.map((definition) => definition.name),
+      ...edges.map((edge) => edge.to),
+    ])
+  );
+
+  if (options.focus) {
+    if (!nodes.includes(options.focus)) {
+      throw new Error(`No definition found for object type: ${options.focus}`);
+    }
+
+    const included = neighborhood(edges, options.focus, options.depth ?? 1);
+    nodes = nodes.filter((node) => included.has(node));
+    edges = edges.filter(
+      (edge) => included.has(edge.from) && included.has(edge.to)
+    );
+  }
+
+  return options.format === 'dot'
+    ? renderDot(nodes, edges, options.focus)
+    : renderMermaid(nodes, edges, options.focus);
+}
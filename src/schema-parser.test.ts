@@ -0,0 +1,94 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  PermissionExpression,
+  expressionToString,
+  findDefinition,
+  parseSchema,
+} from './schema-parser.js';
+
+function parseExpression(expression: string): PermissionExpression {
+  const ast = parseSchema(`definition document {
+  relation viewer: user
+  permission p = ${expression}
+}`);
+  const permission = findDefinition(ast, 'document')?.permissions[0];
+  assert.ok(permission);
+  return permission.expression;
+}
+
+test('exclusion binds tighter than union', () => {
+  assert.deepEqual(parseExpression('a + b - c'), {
+    kind: 'union',
+    left: { kind: 'reference', name: 'a' },
+    right: {
+      kind: 'exclusion',
+      left: { kind: 'reference', name: 'b' },
+      right: { kind: 'reference', name: 'c' },
+    },
+  });
+});
+
+test('exclusion binds tighter than intersection', () => {
+  assert.deepEqual(parseExpression('a - b & c'), {
+    kind: 'intersection',
+    left: {
+      kind: 'exclusion',
+      left: { kind: 'reference', name: 'a' },
+      right: { kind: 'reference', name: 'b' },
+    },
+    right: { kind: 'reference', name: 'c' },
+  });
+});
+
+test('mixed operators group by precedence', () => {
+  const cases: Array<[string, string]> = [
+    ['a + b - c', 'a + (b - c)'],
+    ['a - b + c', '(a - b) + c'],
+    ['a - b & c', '(a - b) & c'],
+    ['a & b - c', 'a & (b - c)'],
+    ['a & b + c', '(a & b) + c'],
+    ['a + b & c', 'a + (b & c)'],
+    ['a + b & c - d', 'a + (b & (c - d))'],
+    ['a - b & c + d', '((a - b) & c) + d'],
+    ['viewer + parent->view - banned', 'viewer + (parent->view - banned)'],
+    ['(a + b) - c', '(a + b) - c'],
+    ['a & (b + c)', 'a & (b + c)'],
+  ];
+  for (const [expression, grouped] of cases) {
+    assert.equal(
+      expressionToString(parseExpression(expression)),
+      grouped,
+      expression
+    );
+  }
+});
+
+test('operators of one kind are left-associative', () => {
+  assert.deepEqual(parseExpression('a - b - c'), {
+    kind: 'exclusion',
+    left: {
+      kind: 'exclusion',
+      left: { kind: 'reference', name: 'a' },
+      right: { kind: 'reference', name: 'b' },
+    },
+    right: { kind: 'reference', name: 'c' },
+  });
+  assert.equal(expressionToString(parseExpression('a - b - c')), 'a - b - c');
+  assert.equal(
+    expressionToString(parseExpression('a - (b - c)')),
+    'a - (b - c)'
+  );
+});
+
+test('rendered expressions parse back to the same tree', () => {
+  for (const expression of [
+    'a + b - c',
+    'a - b & c + d',
+    'a - (b - c)',
+    '(a + b) & c - d',
+  ]) {
+    const parsed = parseExpression(expression);
+    assert.deepEqual(parseExpression(expressionToString(parsed)), parsed);
+  }
+});
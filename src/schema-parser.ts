@@ -0,0 +1,630 @@
+// Parser for the SpiceDB schema language (zed), producing a typed AST
+
+// Location of a node in the schema text. The range covers the node and any
+// doc comments directly above it; line and column point at its keyword.
+export interface SourcePosition {
+  start: number;
+  end: number;
+  line: number;
+  column: number;
+}
+
+// A subject type allowed on a relation, e.g. user, user:*, group#member or
+// user with ip_allowlist and expiration
+export interface AllowedSubjectType {
+  type: string;
+  wildcard: boolean;
+  relation?: string;
+  caveat?: string;
+  expiration: boolean;
+}
+
+export interface RelationNode {
+  kind: 'relation';
+  name: string;
+  comment?: string;
+  subjectTypes: AllowedSubjectType[];
+  position: SourcePosition;
+}
+
+// Union (+), intersection (&) and exclusion (-) of two sub-expressions
+export interface BinaryExpression {
+  kind: 'union' | 'intersection' | 'exclusion';
+  left: PermissionExpression;
+  right: PermissionExpression;
+}
+
+// A reference to a relation or permission on the same definition
+export interface ReferenceExpression {
+  kind: 'reference';
+  name: string;
+}
+
+// Walks a relation to a permission on its subjects: parent->view,
+// parent.any(view) or parent.all(view)
+export interface ArrowExpression {
+  kind: 'arrow';
+  relation: string;
+  permission: string;
+  function: 'any' | 'all';
+}
+
+export interface NilExpression {
+  kind: 'nil';
+}
+
+export type PermissionExpression =
+  BinaryExpression | ReferenceExpression | ArrowExpression | NilExpression;
+
+export interface PermissionNode {
+  kind: 'permission';
+  name: string;
+  comment?: string;
+  expression: PermissionExpression;
+  position: SourcePosition;
+}
+
+export interface DefinitionNode {
+  kind: 'definition';
+  name: string;
+  comment?: string;
+  relations: RelationNode[];
+  permissions: PermissionNode[];
+  position: SourcePosition;
+}
+
+export interface CaveatParameter {
+  name: string;
+  type: string;
+}
+
+export interface CaveatNode {
+  kind: 'caveat';
+  name: string;
+  comment?: string;
+  parameters: CaveatParameter[];
+  expression: string;
+  position: SourcePosition;
+}
+
+export interface SchemaAST {
+  uses: string[];
+  definitions: DefinitionNode[];
+  caveats: CaveatNode[];
+}
+
+// Error raised for schema text that can't be parsed, with a 1-based line and column
+export class SchemaParseError extends Error {
+  constructor(
+    message: string,
+    public readonly line: number,
+    public readonly column: number
+  ) {
+    super(`${message} (line ${line}, column ${column})`);
+    this.name = 'SchemaParseError';
+  }
+}
+
+const identifierPattern =
+  /[a-zA-Z_][a-zA-Z0-9_]*(?:\/[a-zA-Z_][a-zA-Z0-9_]*)*/y;
+
+class SchemaParser {
+  private pos = 0;
+  private comments: string[] = [];
+  private commentStart: number | undefined;
+  private lastTokenEnd = 0;
+
+  constructor(private readonly text: string) {}
+
+  public parse(): SchemaAST {
+    const ast: SchemaAST = { uses: [], definitions: [], caveats: [] };
+
+    this.skipTrivia();
+    while (this.pos < this.text.length) {
+      const keyword = this.peekIdentifier();
+      switch (keyword) {
+        case 'definition':
+          ast.definitions.push(this.parseDefinition());
+          break;
+        case 'caveat':
+          ast.caveats.push(this.parseCaveat());
+          break;
+        case 'use':
+          this.readIdentifier();
+          ast.uses.push(this.expectIdentifier('feature name'));
+          this.takeComments();
+          break;
+        default:
+          throw this.error(
+            `Expected "definition", "caveat" or "use", found ${this.describeNext()}`
+          );
+      }
+      this.skipTrivia();
+    }
+
+    return ast;
+  }
+
+  private parseDefinition(): DefinitionNode {
+    const { comment, start } = this.takeComments();
+    const keywordPos = this.pos;
+    this.readIdentifier();
+    const name = this.expectIdentifier('definition name');
+    this.expect('{');
+
+    const definition: DefinitionNode = {
+      kind: 'definition',
+      name,
+      comment,
+      relations: [],
+      permissions: [],
+      position: this.position(start ?? keywordPos, keywordPos),
+    };
+
+    this.skipTrivia();
+    while (!this.peek('}')) {
+      if (this.pos >= this.text.length) {
+        throw this.error(`Unterminated definition "${name}"`);
+      }
+
+      const keyword = this.peekIdentifier();
+      if (keyword === 'relation') {
+        definition.relations.push(this.parseRelation());
+      } else if (keyword === 'permission') {
+        definition.permissions.push(this.parsePermission());
+      } else {
+        throw this.error(
+          `Expected "relation" or "permission" in definition "${name}", found ${this.describeNext()}`
+        );
+      }
+
+      // Statements may optionally be terminated with a semicolon
+      this.skipTrivia();
+      if (this.peek(';')) {
+        this.pos++;
+        this.skipTrivia();
+      }
+    }
+    this.expect('}');
+    this.takeComments();
+
+    definition.position.end = this.pos;
+    return definition;
+  }
+
+  private parseRelation(): RelationNode {
+    const { comment, start } = this.takeComments();
+    const keywordPos = this.pos;
+    this.readIdentifier();
+    const name = this.expectIdentifier('relation name');
+    this.expect(':');
+
+    const subjectTypes: AllowedSubjectType[] = [this.parseSubjectType()];
+    while (this.peek('|')) {
+      this.pos++;
+      subjectTypes.push(this.parseSubjectType());
+    }
+
+    return {
+      kind: 'relation',
+      name,
+      comment,
+      subjectTypes,
+      position: this.position(
+        start ?? keywordPos,
+        keywordPos,
+        this.lastTokenEnd
+      ),
+    };
+  }
+
+  private parseSubjectType(): AllowedSubjectType {
+    const subjectType: AllowedSubjectType = {
+      type: this.expectIdentifier('subject type'),
+      wildcard: false,
+      expiration: false,
+    };
+
+    if (this.peek(':')) {
+      this.pos++;
+      this.expect('*');
+      subjectType.wildcard = true;
+    } else if (this.peek('#')) {
+      this.pos++;
+      subjectType.relation = this.expectIdentifier('subject relation');
+    }
+
+    if (this.peekIdentifier() === 'with') {
+      this.readIdentifier();
+      // Traits are a caveat name and/or "expiration", joined with "and"
+      do {
+        const trait = this.expectIdentifier('caveat name or expiration');
+        if (trait === 'expiration') {
+          subjectType.expiration = true;
+        } else {
+          subjectType.caveat = trait;
+        }
+      } while (this.peekIdentifier() === 'and' && this.readIdentifier());
+    }
+
+    return subjectType;
+  }
+
+  private parsePermission(): PermissionNode {
+    const { comment, start } = this.takeComments();
+    const keywordPos = this.pos;
+    this.readIdentifier();
+    const name = this.expectIdentifier('permission name');
+    this.expect('=');
+    const expression = this.parseExpression(0);
+
+    return {
+      kind: 'permission',
+      name,
+      comment,
+      expression,
+      position: this.position(
+        start ?? keywordPos,
+        keywordPos,
+        this.lastTokenEnd
+      ),
+    };
+  }
+
+  // Operators from loosest to tightest binding, matching SpiceDB's parser:
+  // union binds loosest and exclusion tightest, each left-associative, so
+  // a + b - c is a + (b - c) and a - b & c is (a - b) & c
+  private static readonly operators: Array<{
+    token: string;
+    kind: BinaryExpression['kind'];
+  }> = [
+    { token: '+', kind: 'union' },
+    { token: '&', kind: 'intersection' },
+    { token: '-', kind: 'exclusion' },
+  ];
+
+  private parseExpression(level: number): PermissionExpression {
+    if (level >= SchemaParser.operators.length) {
+      return this.parseBaseExpression();
+    }
+
+    const operator = SchemaParser.operators[level];
+    let left = this.parseExpression(level + 1);
+    while (this.peekOperator(operator.token)) {
+      this.pos++;
+      const right = this.parseExpression(level + 1);
+      left = { kind: operator.kind, left, right };
+    }
+    return left;
+  }
+
+  private parseBaseExpression(): PermissionExpression {
+    if (this.peek('(')) {
+      this.pos++;
+      const expression = this.parseExpression(0);
+      this.expect(')');
+      return expression;
+    }
+
+    const name = this.expectIdentifier('relation, permission or nil');
+    if (name === 'nil') {
+      return { kind: 'nil' };
+    }
+
+    if (this.peek('->')) {
+      this.pos += 2;
+      return {
+        kind: 'arrow',
+        relation: name,
+        permission: this.expectIdentifier('permission after ->'),
+        function: 'any',
+      };
+    }
+
+    if (this.peek('.')) {
+      this.pos++;
+      const fn = this.expectIdentifier('any or all');
+      if (fn !== 'any' && fn !== 'all') {
+        throw this.error(
+          `Expected "any" or "all" after "${name}.", found "${fn}"`
+        );
+      }
+      this.expect('(');
+      const permission = this.expectIdentifier('permission');
+      this.expect(')');
+      return { kind: 'arrow', relation: name, permission, function: fn };
+    }
+
+    return { kind: 'reference', name };
+  }
+
+  private parseCaveat(): CaveatNode {
+    const { comment, start } = this.takeComments();
+    const keywordPos = this.pos;
+    this.readIdentifier();
+    const name = this.expectIdentifier('caveat name');
+    this.expect('(');
+
+    const parameters: CaveatParameter[] = [];
+    while (!this.peek(')')) {
+      const paramName = this.expectIdentifier('parameter name');
+      parameters.push({ name: paramName, type: this.parseParameterType() });
+      if (!this.peek(',')) break;
+      this.pos++;
+    }
+    this.expect(')');
+    this.expect('{');
+
+    // The body is a CEL expression, kept as text. Braces inside string
+    // literals or map literals must not end the block early.
+    const bodyStart = this.pos;
+    let depth = 1;
+    while (this.pos < this.text.length) {
+      const char = this.text[this.pos];
+      if (char === '"' || char === "'") {
+        this.skipStringLiteral(char);
+        continue;
+      }
+      if (char === '{') depth++;
+      if (char === '}' && --depth === 0) break;
+      this.pos++;
+    }
+    if (depth !== 0) {
+      throw this.error(`Unterminated caveat "${name}"`);
+    }
+
+    const expression = this.text.slice(bodyStart, this.pos).trim();
+    this.pos++;
+    this.lastTokenEnd = this.pos;
+    this.takeComments();
+
+    return {
+      kind: 'caveat',
+      name,
+      comment,
+      parameters,
+      expression,
+      position: this.position(start ?? keywordPos, keywordPos, this.pos),
+    };
+  }
+
+  // Parameter types may be generic, e.g. list<string> or map<list<int>>
+  private parseParameterType(): string {
+    this.skipTrivia();
+    let type = this.expectIdentifier('parameter type');
+    if (this.peek('<')) {
+      this.pos++;
+      type += `<${this.parseParameterType()}>`;
+      this.expect('>');
+    }
+    return type;
+  }
+
+  private skipStringLiteral(quote: string) {
+    this.pos++;
+    while (this.pos < this.text.length && this.text[this.pos] !== quote) {
+      if (this.text[this.pos] === '\\') this.pos++;
+      this.pos++;
+    }
+    this.pos++;
+  }
+
+  // Skip whitespace and comments. Comments that start on their own line are
+  // kept as the doc comment for the next node; trailing comments are dropped.
+  private skipTrivia() {
+    while (this.pos < this.text.length) {
+      const char = this.text[this.pos];
+      if (/\s/.test(char)) {
+        this.pos++;
+        continue;
+      }
+
+      const rest = this.text.startsWith('//', this.pos)
+        ? 'line'
+        : this.text.startsWith('/*', this.pos)
+          ? 'block'
+          : undefined;
+      if (!rest) return;
+
+      const start = this.pos;
+      const end =
+        rest === 'line'
+          ? this.indexOrEnd('\n', this.pos)
+          : this.indexOrEnd('*/', this.pos + 2) + 2;
+      const trailing = !this.text
+        .slice(this.lastTokenEnd, start)
+        .includes('\n');
+      if (!trailing || this.lastTokenEnd === 0) {
+        if (this.comments.length === 0) this.commentStart = start;
+        this.comments.push(this.text.slice(start, end));
+      }
+      this.pos = Math.min(end, this.text.length);
+    }
+  }
+
+  private indexOrEnd(search: string, from: number): number {
+    const index = this.text.indexOf(search, from);
+    return index === -1 ? this.text.length : index;
+  }
+
+  // Take the doc comments collected since the last node
+  private takeComments(): { comment?: string; start?: number } {
+    const comments = this.comments;
+    const start = this.commentStart;
+    this.comments = [];
+    this.commentStart = undefined;
+
+    if (comments.length === 0) {
+      return {};
+    }
+
+    const comment = comments
+      .map((raw) =>
+        raw.startsWith('//')
+          ? raw.replace(/^\/\/\s?/, '')
+          : raw
+              .replace(/^\/\*\*?/, '')
+              .replace(/\*\/$/, '')
+              .split('\n')
+              .map((line) => line.replace(/^\s*\*\s?/, ''))
+              .join('\n')
+              .trim()
+      )
+      .join('\n')
+      .trim();
+
+    return { comment, start };
+  }
+
+  private peek(token: string): boolean {
+    this.skipTrivia();
+    return this.text.startsWith(token, this.pos);
+  }
+
+  // A binary operator, taking care that "-" is not the start of an arrow
+  private peekOperator(token: string): boolean {
+    return this.peek(token) && !(token === '-' && this.peek('->'));
+  }
+
+  private peekIdentifier(): string | undefined {
+    this.skipTrivia();
+    identifierPattern.lastIndex = this.pos;
+    const match = identifierPattern.exec(this.text);
+    return match ? match[0] : undefined;
+  }
+
+  private readIdentifier(): string | undefined {
+    const identifier = this.peekIdentifier();
+    if (identifier) {
+      this.pos += identifier.length;
+      this.lastTokenEnd = this.pos;
+    }
+    return identifier;
+  }
+
+  private expectIdentifier(what: string): string {
+    const identifier = this.readIdentifier();
+    if (!identifier) {
+      throw this.error(`Expected ${what}, found ${this.describeNext()}`);
+    }
+    return identifier;
+  }
+
+  private expect(token: string) {
+    if (!this.peek(token)) {
+      throw this.error(`Expected "${token}", found ${this.describeNext()}`);
+    }
+    this.pos += token.length;
+    this.lastTokenEnd = this.pos;
+  }
+
+  private describeNext(): string {
+    this.skipTrivia();
+    if (this.pos >= this.text.length) {
+      return 'end of schema';
+    }
+    return `"${this.text.slice(this.pos).split(/\s/)[0].slice(0, 20)}"`;
+  }
+
+  private lineAndColumn(offset: number): { line: number; column: number } {
+    const before = this.text.slice(0, offset).split('\n');
+    return {
+      line: before.length,
+      column: before[before.length - 1].length + 1,
+    };
+  }
+
+  private position(
+    start: number,
+    keywordPos: number,
+    end = keywordPos
+  ): SourcePosition {
+    return { start, end, ...this.lineAndColumn(keywordPos) };
+  }
+
+  private error(message: string): SchemaParseError {
+    const { line, column } = this.lineAndColumn(this.pos);
+    return new SchemaParseError(message, line, column);
+  }
+}
+
+// Parse schema text into an AST, throwing a SchemaParseError for invalid schemas
+export function parseSchema(schemaText: string): SchemaAST {
+  return new SchemaParser(schemaText).parse();
+}
+
+// Find a definition by name
+export function findDefinition(
+  ast: SchemaAST,
+  name: string
+): DefinitionNode | undefined {
+  return ast.definitions.find((definition) => definition.name === name);
+}
+
+// Get the source text of a node, including its doc comments
+export function nodeSource(
+  schemaText: string,
+  node: { position: SourcePosition }
+): string {
+  return schemaText.slice(node.position.start, node.position.end);
+}
+
+const operatorTokens: Record<BinaryExpression['kind'], string> = {
+  union: '+',
+  intersection: '&',
+  exclusion: '-',
+};
+
+// Render a permission expression back to zed syntax. Mixed operators are
+// always parenthesized so the grouping is explicit to the reader.
+export function expressionToString(expression: PermissionExpression): string {
+  switch (expression.kind) {
+    case 'nil':
+      return 'nil';
+    case 'reference':
+      return expression.name;
+    case 'arrow':
+      return expression.function === 'all'
+        ? `${expression.relation}.all(${expression.permission})`
+        : `${expression.relation}->${expression.permission}`;
+    default: {
+      const { left, right } = expression;
+      const isBinary = (child: PermissionExpression) =>
+        child.kind === 'union' ||
+        child.kind === 'intersection' ||
+        child.kind === 'exclusion';
+
+      // Union and intersection are associative; exclusion is not, so a
+      // nested exclusion on the right keeps its parentheses
+      const wrapLeft = isBinary(left) && left.kind !== expression.kind;
+      const wrapRight =
+        isBinary(right) &&
+        (right.kind !== expression.kind || expression.kind === 'exclusion');
+
+      const leftStr = expressionToString(left);
+      const rightStr = expressionToString(right);
+      return `${wrapLeft ? `(${leftStr})` : leftStr} ${
+        operatorTokens[expression.kind]
+      } ${wrapRight ? `(${rightStr})` : rightStr}`;
+    }
+  }
+}
+
+// Render an allowed subject type back to zed syntax
+export function subjectTypeToString(subjectType: AllowedSubjectType): string {
+  let str = subjectType.type;
+  if (subjectType.wildcard) {
+    str += ':*';
+  } else if (subjectType.relation) {
+    str += `#${subjectType.relation}`;
+  }
+
+  const traits = [];
+  if (subjectType.caveat) traits.push(subjectType.caveat);
+  if (subjectType.expiration) traits.push('expiration');
+  if (traits.length > 0) {
+    str += ` with ${traits.join(' and ')}`;
+  }
+
+  return str;
+}
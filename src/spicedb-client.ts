@@ -1,123 +1,289 @@
-import fetch from 'node-fetch';
 import * as dotenv from 'dotenv';
-import { Readable } from 'stream';
+import {
+  HttpTransport,
+  SpiceDBTransport,
+  TransportName,
+  parseTransportName,
+} from './transport.js';
+import { GrpcTransport } from './grpc-transport.js';
+import {
+  CheckBulkPermissionsRequest,
+  CheckBulkPermissionsResponse,
+  CheckPermissionRequest,
+  CheckPermissionResponse,
+  Consistency,
+  Cursor,
+  DeleteRelationshipsRequest,
+  DeleteRelationshipsResponse,
+  ExpandPermissionTreeRequest,
+  ExpandPermissionTreeResponse,
+  LookupResourcesRequest,
+  LookupResourcesResponse,
+  LookupSubjectsRequest,
+  LookupSubjectsResponse,
+  ObjectReference,
+  ReadRelationshipsRequest,
+  ReadRelationshipsResponse,
+  ReadSchemaRequest,
+  ReadSchemaResponse,
+  Relationship,
+  SubjectReference,
+  WatchRequest,
+  WatchUpdate,
+  WriteRelationshipsRequest,
+  WriteRelationshipsResponse,
+  WriteSchemaRequest,
+  WriteSchemaResponse,
+  checkBulkPermissionsResponseSchema,
+  checkPermissionResponseSchema,
+  deleteRelationshipsResponseSchema,
+  expandPermissionTreeResponseSchema,
+  lookupResourcesResponseSchema,
+  lookupSubjectsResponseSchema,
+  parseResponse,
+  readRelationshipsResponseSchema,
+  readSchemaResponseSchema,
+  watchResponseSchema,
+  writeRelationshipsResponseSchema,
+  writeSchemaResponseSchema,
+} from './api-types.js';
+import { z } from 'zod';
+import {
+  ResilienceOptions,
+  ResilientTransport,
+  resilienceOptionsFromEnv,
+} from './resilience.js';
 
 dotenv.config();
 
-// SpiceDB API client that uses direct HTTP calls
-export class SpiceDBClient {
-  private endpoint: string;
-  private apiKey: string;
-  private useTLS: boolean;
-  private static instance: SpiceDBClient;
-
-  private constructor() {
-    this.endpoint = process.env.SPICEDB_ENDPOINT || 'localhost:50051';
-    this.apiKey = process.env.SPICEDB_API_KEY || '';
-    this.useTLS = process.env.SPICEDB_USE_TLS === 'true';
-
-    // Ensure endpoint has protocol
-    if (!this.endpoint.startsWith('http')) {
-      this.endpoint = `${this.useTLS ? 'https' : 'http'}://${this.endpoint}`;
+// Where and how to reach a SpiceDB instance
+export interface SpiceDBConnectionOptions {
+  endpoint: string;
+  apiKey: string;
+  useTLS: boolean;
+  transport: TransportName;
+}
+
+// Read the connection options from SPICEDB_ENDPOINT, SPICEDB_API_KEY,
+// SPICEDB_USE_TLS and SPICEDB_TRANSPORT
+export function connectionOptionsFromEnv(): SpiceDBConnectionOptions {
+  return {
+    endpoint: process.env.SPICEDB_ENDPOINT || 'localhost:50051',
+    apiKey: process.env.SPICEDB_API_KEY || '',
+    useTLS: process.env.SPICEDB_USE_TLS === 'true',
+    transport: parseTransportName(process.env.SPICEDB_TRANSPORT),
+  };
+}
+
+// Options for a single call
+export interface RequestOptions {
+  // Cancels the call, for example when the MCP request is cancelled
+  signal?: AbortSignal;
+}
+
+// Options for the streaming reads
+export interface StreamOptions extends RequestOptions {
+  // Results requested per page with optionalLimit
+  pageSize?: number;
+  // Stop after this many results
+  maxResults?: number;
+}
+
+// The components of a relationship string
+export interface ParsedRelationship {
+  resourceType: string;
+  resourceId: string;
+  relation: string;
+  subjectType: string;
+  subjectId: string;
+  optionalSubjectRelation?: string;
+  caveat?: { caveatName: string; context?: Record<string, any> };
+  expiresAt?: string;
+}
+
+// Index of the ']' that closes the '[' at start, or -1 if it isn't closed.
+// Brackets in the caveat context's JSON arrays and strings are skipped.
+function closingBracket(text: string, start: number): number {
+  let depth = 0;
+  let inString = false;
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (char === '\\') {
+        i++;
+      } else if (char === '"') {
+        inString = false;
+      }
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '[' || char === '{') {
+      depth++;
+    } else if (char === ']' || char === '}') {
+      depth--;
+      if (depth === 0) {
+        return char === ']' ? i : -1;
+      }
     }
   }
+  return -1;
+}
 
-  public static getInstance(): SpiceDBClient {
-    if (!SpiceDBClient.instance) {
-      console.error('Initializing SpiceDB client...');
-      SpiceDBClient.instance = new SpiceDBClient();
-      console.error(
-        `SpiceDB client initialized with endpoint: ${SpiceDBClient.instance.endpoint}`
+// Parse the [caveatName:{...}] and [expiration:timestamp] suffixes of a
+// relationship string
+function parseRelationshipSuffixes(
+  suffixes: string,
+  relationshipStr: string
+): Pick<ParsedRelationship, 'caveat' | 'expiresAt'> {
+  const parsed: Pick<ParsedRelationship, 'caveat' | 'expiresAt'> = {};
+
+  let position = 0;
+  while (position < suffixes.length) {
+    const end =
+      suffixes[position] === '[' ? closingBracket(suffixes, position) : -1;
+    if (end < 0) {
+      throw new Error(
+        `Invalid caveat or expiration suffix in: ${relationshipStr}`
       );
-      console.error(`TLS enabled: ${SpiceDBClient.instance.useTLS}`);
     }
-    return SpiceDBClient.instance;
-  }
 
-  private async makeRequest(path: string, method: string, body?: any) {
-    const url = `${this.endpoint}${path}`;
-
-    const headers: Record<string, string> = {
-      'Content-Type': 'application/json',
-      Accept: 'application/json, application/x-ndjson',
-    };
+    const body = suffixes.slice(position + 1, end);
+    const colon = body.indexOf(':');
+    const name = colon >= 0 ? body.slice(0, colon) : body;
+    const value = colon >= 0 ? body.slice(colon + 1) : undefined;
 
-    if (this.apiKey) {
-      headers['Authorization'] = `Bearer ${this.apiKey}`;
-    }
-
-    try {
-      // console.error(`[request] method:#{method} body:${body ? JSON.stringify(body) : 'none'}`);
-      const response = await fetch(url, {
-        method,
-        headers,
-        body: body ? JSON.stringify(body) : undefined,
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`SpiceDB API error (${response.status}): ${errorText}`);
+    if (name === 'expiration') {
+      if (parsed.expiresAt !== undefined || !value) {
+        throw new Error(`Invalid expiration in: ${relationshipStr}`);
       }
-
-      if (response.status === 204) {
-        // No content
-        return null;
+      parsed.expiresAt = value;
+    } else {
+      if (parsed.caveat || !name) {
+        throw new Error(`Invalid caveat in: ${relationshipStr}`);
+      }
+      parsed.caveat = { caveatName: name };
+      if (value !== undefined) {
+        parsed.caveat.context = parseCaveatContext(name, value);
       }
+    }
 
-      // Read response as text and parse each line as JSON
-      const responseText = await response.text();
+    position = end + 1;
+  }
 
-      // If response is empty, return null
-      if (!responseText.trim()) {
-        return null;
-      }
+  return parsed;
+}
 
-      // Parse each line as JSON
-      const results = responseText
-        .split('\n')
-        .filter((line) => line.trim() !== '')
-        .map((line) => {
-          try {
-            return JSON.parse(line);
-          } catch (err) {
-            console.error('Error parsing JSON line:', line, err);
-            throw new Error(`Failed to parse JSON line: ${line}`);
-          }
-        });
+function parseCaveatContext(
+  caveatName: string,
+  value: string
+): Record<string, any> {
+  let context: unknown;
+  try {
+    context = JSON.parse(value);
+  } catch (error) {
+    throw new Error(`Invalid context for caveat ${caveatName}: ${error}`);
+  }
+  if (
+    typeof context !== 'object' ||
+    context === null ||
+    Array.isArray(context)
+  ) {
+    throw new Error(
+      `Invalid context for caveat ${caveatName}: expected a JSON object`
+    );
+  }
+  return context as Record<string, any>;
+}
 
-      // For single-result responses, return the first result
-      // For multi-line responses, return the full array
-      const result = results.length === 1 ? results[0] : results;
+// Results per page when none is given; SpiceDB allows at most 1000
+const defaultPageSize = 1000;
 
-      //console.error(`[result] ${JSON.stringify(result)}`);
-      return result;
-    } catch (error) {
-      console.error(`Error making request to ${path}:`, error);
-      throw error;
+// Read the most rows a tool collects from a streaming read from
+// SPICEDB_MAX_RESULTS, so a large tenant can't exhaust memory
+export function getMaxResults(): number {
+  const configured = parseInt(process.env.SPICEDB_MAX_RESULTS || '', 10);
+  return configured > 0 ? configured : 10000;
+}
+
+// Collect up to limit results from a stream. Reading stops as soon as one
+// more result arrives, which closes the stream and ends the request.
+export async function collectResults<T>(
+  stream: AsyncIterable<T>,
+  limit: number
+): Promise<{ results: T[]; truncated: boolean }> {
+  const results: T[] = [];
+  for await (const result of stream) {
+    if (results.length >= limit) {
+      return { results, truncated: true };
     }
+    results.push(result);
+  }
+  return { results, truncated: false };
+}
+
+// SpiceDB API client, calling either the HTTP gateway or the gRPC API
+export class SpiceDBClient {
+  private transport: SpiceDBTransport;
+
+  constructor(
+    options: SpiceDBConnectionOptions = connectionOptionsFromEnv(),
+    resilience: ResilienceOptions = resilienceOptionsFromEnv()
+  ) {
+    this.transport = new ResilientTransport(
+      options.transport === 'grpc'
+        ? new GrpcTransport(options.endpoint, options.apiKey, options.useTLS)
+        : new HttpTransport(options.endpoint, options.apiKey, options.useTLS),
+      resilience
+    );
+  }
+
+  // The endpoint requests are sent to
+  public getEndpoint(): string {
+    return this.transport.target;
+  }
+
+  public getTransportName(): TransportName {
+    return this.transport.name;
+  }
+
+  public usesTLS(): boolean {
+    return this.transport.tls;
   }
 
   // Helper to create a consistency object for all requests
-  public fullConsistency() {
+  public fullConsistency(): Consistency {
     return {
       fullyConsistent: true,
     };
   }
 
   // Helper to create a minimal latency consistency object
-  public minimalLatency() {
+  public minimalLatency(): Consistency {
     return {
       minimizeLatency: true,
     };
   }
 
+  // Helper to create a consistency object that is at least as fresh as a ZedToken
+  public atLeastAsFresh(token: string): Consistency {
+    return {
+      atLeastAsFresh: { token },
+    };
+  }
+
+  // Helper to create a consistency object pinned to the snapshot of a ZedToken
+  public atExactSnapshot(token: string): Consistency {
+    return {
+      atExactSnapshot: { token },
+    };
+  }
+
   // Convert an object reference to a string
-  public objectRefToString(ref: any): string {
+  public objectRefToString(ref: ObjectReference): string {
     return `${ref.objectType}:${ref.objectId}`;
   }
 
   // Convert a subject reference to a string
-  public subjectRefToString(ref: any): string {
+  public subjectRefToString(ref: SubjectReference): string {
     const base = this.objectRefToString(ref.object);
     if (ref.optionalRelation) {
       return `${base}#${ref.optionalRelation}`;
@@ -125,208 +291,194 @@ export class SpiceDBClient {
     return base;
   }
 
-  // Helper to parse a relationship string into components
-  public parseRelationshipString(relationshipStr: string): {
-    resourceType: string;
-    resourceId: string;
-    relation: string;
-    subjectType: string;
-    subjectId: string;
-    optionalSubjectRelation?: string;
-  } {
-    // Expected format: resourceType:resourceId#relation@subjectType:subjectId[#subjectRelation]
-    const parts = relationshipStr.split('#');
-    const resourcePart = parts[0].split(':');
+  // Convert a relationship to a string in zed syntax, including any caveat and expiration
+  public relationshipToString(rel: Relationship): string {
+    let str = `${this.objectRefToString(rel.resource)}#${
+      rel.relation
+    }@${this.subjectRefToString(rel.subject)}`;
+
+    if (rel.optionalCaveat && rel.optionalCaveat.caveatName) {
+      const context = rel.optionalCaveat.context;
+      str += `[${rel.optionalCaveat.caveatName}${
+        context && Object.keys(context).length > 0
+          ? ':' + JSON.stringify(context)
+          : ''
+      }]`;
+    }
 
-    if (parts.length < 2 || resourcePart.length !== 2) {
-      throw new Error(`Invalid relationship format: ${relationshipStr}`);
+    if (rel.optionalExpiresAt) {
+      str += `[expiration:${rel.optionalExpiresAt}]`;
     }
 
-    const resourceType = resourcePart[0];
-    const resourceId = resourcePart[1];
+    return str;
+  }
 
-    const relationSubjectParts = parts[1].split('@');
+  // Helper to parse a relationship string into components. The string may end
+  // with a caveat, [caveatName] or [caveatName:{...context}], and an
+  // expiration, [expiration:timestamp], as relationshipToString writes them.
+  public parseRelationshipString(relationshipStr: string): ParsedRelationship {
+    // Object IDs can't contain '[', so the first one starts the suffixes
+    const suffixStart = relationshipStr.indexOf('[');
+    const tuple =
+      suffixStart >= 0
+        ? relationshipStr.slice(0, suffixStart)
+        : relationshipStr;
 
-    if (relationSubjectParts.length !== 2) {
+    // Expected format: resourceType:resourceId#relation@subjectType:subjectId[#subjectRelation]
+    const at = tuple.indexOf('@');
+    const [resourceRef, relation, ...extraRelations] = tuple
+      .slice(0, at >= 0 ? at : tuple.length)
+      .split('#');
+    const resourcePart = resourceRef.split(':');
+
+    if (
+      at < 0 ||
+      relation === undefined ||
+      extraRelations.length > 0 ||
+      resourcePart.length !== 2
+    ) {
       throw new Error(`Invalid relationship format: ${relationshipStr}`);
     }
 
-    const relation = relationSubjectParts[0];
-    const subjectPart = relationSubjectParts[1];
-
-    // Handle optional subject relation
-    let subjectType: string;
-    let subjectId: string;
-    let optionalSubjectRelation: string | undefined;
-
-    if (subjectPart.includes('#')) {
-      const subjectParts = subjectPart.split('#');
-      const subjectRefParts = subjectParts[0].split(':');
-
-      if (subjectRefParts.length !== 2) {
-        throw new Error(`Invalid subject format: ${subjectPart}`);
-      }
-
-      subjectType = subjectRefParts[0];
-      subjectId = subjectRefParts[1];
-      optionalSubjectRelation = subjectParts[1];
-    } else {
-      const subjectRefParts = subjectPart.split(':');
-
-      if (subjectRefParts.length !== 2) {
-        throw new Error(`Invalid subject format: ${subjectPart}`);
-      }
+    const subjectPart = tuple.slice(at + 1);
+    const [subjectRef, optionalSubjectRelation, ...extraSubjectRelations] =
+      subjectPart.split('#');
+    const subjectRefParts = subjectRef.split(':');
 
-      subjectType = subjectRefParts[0];
-      subjectId = subjectRefParts[1];
+    if (subjectRefParts.length !== 2 || extraSubjectRelations.length > 0) {
+      throw new Error(`Invalid subject format: ${subjectPart}`);
     }
 
     return {
-      resourceType,
-      resourceId,
+      resourceType: resourcePart[0],
+      resourceId: resourcePart[1],
       relation,
-      subjectType,
-      subjectId,
-      optionalSubjectRelation,
+      subjectType: subjectRefParts[0],
+      subjectId: subjectRefParts[1],
+      optionalSubjectRelation: optionalSubjectRelation || undefined,
+      ...(suffixStart >= 0
+        ? parseRelationshipSuffixes(
+            relationshipStr.slice(suffixStart),
+            relationshipStr
+          )
+        : {}),
     };
   }
 
-  // Create a relationship object
-  public createRelationship(
-    resourceType: string,
-    resourceId: string,
-    relation: string,
-    subjectType: string,
-    subjectId: string,
-    optionalSubjectRelation?: string
-  ): any {
-    const relationship: any = {
-      resource: {
-        objectType: resourceType,
-        objectId: resourceId,
-      },
-      relation,
-      subject: {
-        object: {
-          objectType: subjectType,
-          objectId: subjectId,
-        },
-      },
-    };
+  // Stream the results of a streaming call. Paginated calls are requested in
+  // pages of pageSize with optionalLimit, each resuming from the last result's
+  // cursor, until a page comes back short. The stream stops after maxResults
+  // results, and ends the request when the caller stops reading early. Each
+  // result is validated against the call's response model.
+  private async *streamResults<T extends z.ZodTypeAny>(
+    path: string,
+    call: string,
+    schema: T,
+    params:
+      ReadRelationshipsRequest | LookupResourcesRequest | LookupSubjectsRequest,
+    options: StreamOptions,
+    paginated: boolean
+  ): AsyncGenerator<z.infer<T>> {
+    const pageSize = options.pageSize ?? defaultPageSize;
+    const maxResults = options.maxResults ?? Infinity;
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    options.signal?.addEventListener('abort', onAbort);
+
+    let count = 0;
+    let cursor: Cursor | undefined =
+      'optionalCursor' in params ? params.optionalCursor : undefined;
 
-    if (optionalSubjectRelation) {
-      relationship.subject.optionalRelation = optionalSubjectRelation;
-    }
-
-    return relationship;
-  }
-
-  // Create a relationship filter
-  public createRelationshipFilter(
-    resourceType?: string,
-    resourceId?: string,
-    relation?: string,
-    subjectType?: string,
-    subjectId?: string,
-    subjectRelation?: string
-  ): any {
-    const filter: any = {};
-
-    if (resourceType) {
-      filter.resourceType = resourceType;
-    }
-
-    if (resourceId) {
-      filter.optionalResourceId = resourceId;
-    }
+    try {
+      while (count < maxResults) {
+        const request: Record<string, unknown> = { ...params };
+        const limit = Math.min(pageSize, maxResults - count);
+        if (paginated) {
+          request.optionalLimit = limit;
+          if (cursor) {
+            request.optionalCursor = cursor;
+          }
+        }
 
-    if (relation) {
-      filter.optionalRelation = relation;
-    }
+        let pageCount = 0;
+        for await (const message of this.transport.stream(
+          path,
+          request,
+          controller.signal
+        )) {
+          if (!message.result) {
+            continue;
+          }
 
-    if (subjectType) {
-      filter.optionalSubjectFilter = {
-        subjectType,
-      };
+          const result = parseResponse(schema, call, message.result);
+          pageCount++;
+          count++;
+          if (result.afterResultCursor) {
+            cursor = result.afterResultCursor;
+          }
+          yield result;
 
-      if (subjectId) {
-        filter.optionalSubjectFilter.optionalSubjectId = subjectId;
-      }
+          if (count >= maxResults) {
+            return;
+          }
+        }
 
-      if (subjectRelation) {
-        filter.optionalSubjectFilter.optionalRelation = {
-          relation: subjectRelation,
-        };
+        if (!paginated || pageCount < limit) {
+          return;
+        }
       }
+    } finally {
+      options.signal?.removeEventListener('abort', onAbort);
+      controller.abort();
     }
-
-    return filter;
   }
 
   // API methods based on SpiceDB OpenAPI spec
 
   // Read schema
-  async readSchema(params: any = {}) {
-    return this.makeRequest('/v1/schema/read', 'POST', params);
+  async readSchema(
+    params: ReadSchemaRequest = {},
+    options: RequestOptions = {}
+  ): Promise<ReadSchemaResponse> {
+    return parseResponse(
+      readSchemaResponseSchema,
+      'ReadSchema',
+      await this.transport.request('/v1/schema/read', params, options.signal)
+    );
   }
 
-  // Read relationships
-  async readRelationships(params: any) {
-    // This is a streaming API in the original, we'll need to handle pagination
-    const results = [];
-    let hasMore = true;
-    let cursor = null;
-
-    while (hasMore) {
-      const requestParams = { ...params };
-      if (cursor) {
-        requestParams.optionalCursor = cursor;
-      }
-
-      const response = (await this.makeRequest(
-        '/v1/relationships/read',
-        'POST',
-        requestParams
-      )) as any;
-
-      // Handle array response format
-      if (Array.isArray(response)) {
-        for (const item of response) {
-          if (item.result && item.result.relationship) {
-            results.push(item.result);
-
-            // Update cursor to the last item's cursor if available
-            if (item.result.afterResultCursor) {
-              cursor = item.result.afterResultCursor;
-            }
-          }
-        }
-        // If we got results but no more cursor, we're done
-        if (cursor === null || results.length === 0) {
-          hasMore = false;
-        }
-      }
-      // Handle legacy single object response format
-      else if (response && 'relationship' in response) {
-        results.push(response);
-
-        if (response && 'afterResultCursor' in response) {
-          cursor = response.afterResultCursor;
-        } else {
-          hasMore = false;
-        }
-      }
-      // No results or unexpected format
-      else {
-        hasMore = false;
-      }
-    }
+  // Write schema
+  async writeSchema(
+    params: WriteSchemaRequest,
+    options: RequestOptions = {}
+  ): Promise<WriteSchemaResponse> {
+    return parseResponse(
+      writeSchemaResponseSchema,
+      'WriteSchema',
+      await this.transport.request('/v1/schema/write', params, options.signal)
+    );
+  }
 
-    return results;
+  // Read relationships, streamed page by page
+  readRelationships(
+    params: ReadRelationshipsRequest,
+    options: StreamOptions = {}
+  ): AsyncGenerator<ReadRelationshipsResponse> {
+    return this.streamResults(
+      '/v1/relationships/read',
+      'ReadRelationships',
+      readRelationshipsResponseSchema,
+      params,
+      options,
+      true
+    );
   }
 
   // Check permission
-  async checkPermission(params: any) {
+  async checkPermission(
+    params: CheckPermissionRequest,
+    options: RequestOptions = {}
+  ): Promise<CheckPermissionResponse> {
     const modifiedParams = { ...params };
 
     // Add tracing parameter if it's not explicitly set
@@ -334,126 +486,170 @@ export class SpiceDBClient {
       modifiedParams.withTracing = true;
     }
 
-    return this.makeRequest('/v1/permissions/check', 'POST', modifiedParams);
+    return parseResponse(
+      checkPermissionResponseSchema,
+      'CheckPermission',
+      await this.transport.request(
+        '/v1/permissions/check',
+        modifiedParams,
+        options.signal
+      )
+    );
   }
 
-  // Lookup resources
-  async lookupResources(params: any) {
-    // This is a streaming API in the original, we'll need to handle pagination
-    const results = [];
-    let hasMore = true;
-    let cursor = null;
-
-    while (hasMore) {
-      const requestParams = { ...params };
-      if (cursor) {
-        requestParams.optionalCursor = cursor;
-      }
+  // Check a batch of permissions in a single request
+  async checkBulkPermissions(
+    params: CheckBulkPermissionsRequest,
+    options: RequestOptions = {}
+  ): Promise<CheckBulkPermissionsResponse> {
+    return parseResponse(
+      checkBulkPermissionsResponseSchema,
+      'CheckBulkPermissions',
+      await this.transport.request(
+        '/v1/permissions/checkbulk',
+        params,
+        options.signal
+      )
+    );
+  }
 
-      const response = (await this.makeRequest(
-        '/v1/permissions/resources',
-        'POST',
-        requestParams
-      )) as any;
-
-      // Handle array response format
-      if (Array.isArray(response)) {
-        for (const item of response) {
-          if (item.result) {
-            results.push(item.result);
-
-            // Update cursor to the last item's cursor if available
-            if (item.result.afterResultCursor) {
-              cursor = item.result.afterResultCursor;
-            }
-          }
-        }
-        // If we got results but no more cursor, we're done
-        if (cursor === null || results.length === 0) {
-          hasMore = false;
-        }
-      }
-      // Handle legacy single object response format
-      else if (response && 'resourceObjectId' in response) {
-        results.push(response);
-
-        if (response && 'afterResultCursor' in response) {
-          cursor = response.afterResultCursor;
-        } else {
-          hasMore = false;
-        }
-      }
-      // No results or unexpected format
-      else {
-        hasMore = false;
-      }
-    }
+  // Expand a permission into the tree of relations and subjects it is computed from
+  async expandPermissionTree(
+    params: ExpandPermissionTreeRequest,
+    options: RequestOptions = {}
+  ): Promise<ExpandPermissionTreeResponse> {
+    return parseResponse(
+      expandPermissionTreeResponseSchema,
+      'ExpandPermissionTree',
+      await this.transport.request(
+        '/v1/permissions/expand',
+        params,
+        options.signal
+      )
+    );
+  }
 
-    return results;
+  // Lookup resources, streamed page by page
+  lookupResources(
+    params: LookupResourcesRequest,
+    options: StreamOptions = {}
+  ): AsyncGenerator<LookupResourcesResponse> {
+    return this.streamResults(
+      '/v1/permissions/resources',
+      'LookupResources',
+      lookupResourcesResponseSchema,
+      params,
+      options,
+      true
+    );
   }
 
-  // Lookup subjects
-  async lookupSubjects(params: any) {
-    // This is a streaming API in the original, we'll need to handle pagination
-    const results = [];
-    let hasMore = true;
-    let cursor = null;
-
-    while (hasMore) {
-      const requestParams = { ...params };
-      if (cursor) {
-        requestParams.optionalCursor = cursor;
-      }
+  // Lookup subjects. LookupSubjects doesn't support cursors, so all subjects
+  // come back in one stream.
+  lookupSubjects(
+    params: LookupSubjectsRequest,
+    options: StreamOptions = {}
+  ): AsyncGenerator<LookupSubjectsResponse> {
+    return this.streamResults(
+      '/v1/permissions/subjects',
+      'LookupSubjects',
+      lookupSubjectsResponseSchema,
+      params,
+      options,
+      false
+    );
+  }
 
-      const response = (await this.makeRequest(
-        '/v1/permissions/subjects',
-        'POST',
-        requestParams
-      )) as any;
-
-      // Handle array response format
-      if (Array.isArray(response)) {
-        for (const item of response) {
-          if (item.result) {
-            results.push(item.result);
-
-            // Update cursor to the last item's cursor if available
-            if (item.result.afterResultCursor) {
-              cursor = item.result.afterResultCursor;
-            }
-          }
-        }
-        // If we got results but no more cursor, we're done
-        if (cursor === null || results.length === 0) {
-          hasMore = false;
+  // Write relationships
+  async writeRelationships(
+    params: WriteRelationshipsRequest,
+    options: RequestOptions = {}
+  ): Promise<WriteRelationshipsResponse> {
+    return parseResponse(
+      writeRelationshipsResponseSchema,
+      'WriteRelationships',
+      await this.transport.request(
+        '/v1/relationships/write',
+        params,
+        options.signal
+      )
+    );
+  }
+
+  // Delete relationships
+  async deleteRelationships(
+    params: DeleteRelationshipsRequest,
+    options: RequestOptions = {}
+  ): Promise<DeleteRelationshipsResponse> {
+    return parseResponse(
+      deleteRelationshipsResponseSchema,
+      'DeleteRelationships',
+      await this.transport.request(
+        '/v1/relationships/delete',
+        params,
+        options.signal
+      )
+    );
+  }
+
+  // Watch for relationship changes. The Watch stream never ends on its own, so
+  // it is consumed until the duration elapses, at least maxUpdates updates have
+  // arrived, or the signal is aborted. Updates from one revision are never split,
+  // so the returned checkpoint token can be used to resume without gaps. When
+  // the signal cut the watch short, the result is marked cancelled.
+  async watch(
+    params: WatchRequest,
+    options: { maxUpdates: number; durationMs: number; signal?: AbortSignal }
+  ): Promise<{
+    updates: WatchUpdate[];
+    checkpoint?: string;
+    cancelled: boolean;
+  }> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), options.durationMs);
+    const onAbort = () => controller.abort();
+    options.signal?.addEventListener('abort', onAbort);
+
+    const updates: WatchUpdate[] = [];
+    let checkpoint: string | undefined = params.optionalStartCursor?.token;
+
+    try {
+      for await (const message of this.transport.stream(
+        '/v1/watch',
+        params,
+        controller.signal
+      )) {
+        const result = parseResponse(
+          watchResponseSchema,
+          'Watch',
+          message.result
+        );
+        updates.push(...result.updates);
+        if (result.changesThrough?.token) {
+          checkpoint = result.changesThrough.token;
         }
-      }
-      // Handle legacy single object response format
-      else if (response) {
-        results.push(response);
-
-        if (response && 'afterResultCursor' in response) {
-          cursor = response.afterResultCursor;
-        } else {
-          hasMore = false;
+
+        if (updates.length >= options.maxUpdates) {
+          break;
         }
       }
-      // No results or unexpected format
-      else {
-        hasMore = false;
+    } catch (error) {
+      // Aborting is how the stream is bounded, so it isn't an error; a
+      // cancelled watch is reported through the result instead
+      if (!controller.signal.aborted) {
+        console.error('Error watching for changes:', error);
+        throw error;
       }
+    } finally {
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', onAbort);
+      controller.abort();
     }
 
-    return results;
-  }
-
-  // Write relationships
-  async writeRelationships(params: any) {
-    return this.makeRequest('/v1/relationships/write', 'POST', params);
-  }
-
-  // Delete relationships
-  async deleteRelationships(params: any) {
-    return this.makeRequest('/v1/relationships/delete', 'POST', params);
+    return {
+      updates,
+      checkpoint,
+      cancelled: options.signal?.aborted ?? false,
+    };
   }
 }
@@ -0,0 +1,165 @@
+// Output schemas for the tools that return structured content alongside their
+// text, so programmatic clients don't have to parse the text. References,
+// relationships and traces use the same shapes as the SpiceDB API.
+import { z } from 'zod';
+import {
+  LookupPermissionship,
+  PartialCaveatInfo,
+  checkDebugTraceSchema,
+  contextSchema,
+  lookupPermissionshipSchema,
+  objectReferenceSchema,
+  permissionshipSchema,
+  relationshipSchema,
+  subjectReferenceSchema,
+} from './api-types.js';
+import {
+  SchemaParseError,
+  expressionToString,
+  parseSchema,
+  subjectTypeToString,
+} from './schema-parser.js';
+import { Page } from './pagination.js';
+
+// The structured content for an output schema
+export type ToolOutput<S extends z.ZodRawShape> = z.infer<z.ZodObject<S>>;
+
+// Paging fields shared by the list tools
+const pageOutput = {
+  // Results returned by earlier pages
+  offset: z.number(),
+  hasMore: z.boolean(),
+  // Cursor for the next page, when hasMore is true
+  nextCursor: z.string().optional(),
+};
+
+export function pageInfo(page: Page): ToolOutput<typeof pageOutput> {
+  return {
+    offset: page.offset,
+    hasMore: page.next !== undefined,
+    nextCursor: page.next,
+  };
+}
+
+export const readSchemaOutput = {
+  schemaText: z.string(),
+  // Outline of the schema; omitted if this server can't parse it
+  definitions: z
+    .array(
+      z.object({
+        name: z.string(),
+        relations: z.array(
+          z.object({
+            name: z.string(),
+            // For example "user", "user:*" or "group#member"
+            subjectTypes: z.array(z.string()),
+          })
+        ),
+        permissions: z.array(
+          z.object({
+            name: z.string(),
+            expression: z.string(),
+          })
+        ),
+      })
+    )
+    .optional(),
+  caveats: z
+    .array(
+      z.object({
+        name: z.string(),
+        parameters: z.array(z.object({ name: z.string(), type: z.string() })),
+      })
+    )
+    .optional(),
+};
+
+export function schemaOutline(
+  schemaText: string
+): Pick<ToolOutput<typeof readSchemaOutput>, 'definitions' | 'caveats'> {
+  try {
+    const ast = parseSchema(schemaText);
+    return {
+      definitions: ast.definitions.map((definition) => ({
+        name: definition.name,
+        relations: definition.relations.map((relation) => ({
+          name: relation.name,
+          subjectTypes: relation.subjectTypes.map(subjectTypeToString),
+        })),
+        permissions: definition.permissions.map((permission) => ({
+          name: permission.name,
+          expression: expressionToString(permission.expression),
+        })),
+      })),
+      caveats: ast.caveats.map((caveat) => ({
+        name: caveat.name,
+        parameters: caveat.parameters,
+      })),
+    };
+  } catch (error) {
+    if (error instanceof SchemaParseError) {
+      return {};
+    }
+    throw error;
+  }
+}
+
+export const readRelationshipsOutput = {
+  relationships: z.array(relationshipSchema),
+  ...pageOutput,
+};
+
+export const checkPermissionOutput = {
+  permissionship: permissionshipSchema,
+  resource: objectReferenceSchema,
+  permission: z.string(),
+  subject: subjectReferenceSchema,
+  context: contextSchema.optional(),
+  // Caveat context keys that would resolve a conditional result
+  missingContext: z.array(z.string()).optional(),
+  // ZedToken of the revision the check was evaluated at
+  checkedAt: z.string().optional(),
+  trace: checkDebugTraceSchema.optional(),
+};
+
+// The caveat context keys still missing for a conditional lookup result
+export function lookupMissingContext(result: {
+  permissionship: LookupPermissionship;
+  partialCaveatInfo?: PartialCaveatInfo;
+}): string[] | undefined {
+  return result.permissionship ===
+    'LOOKUP_PERMISSIONSHIP_CONDITIONAL_PERMISSION'
+    ? (result.partialCaveatInfo?.missingRequiredContext ?? [])
+    : undefined;
+}
+
+export const lookupResourcesOutput = {
+  resources: z.array(
+    z.object({
+      resource: objectReferenceSchema,
+      permissionship: lookupPermissionshipSchema,
+      missingContext: z.array(z.string()).optional(),
+    })
+  ),
+  ...pageOutput,
+};
+
+export const lookupSubjectsOutput = {
+  subjects: z.array(
+    z.object({
+      subject: subjectReferenceSchema,
+      permissionship: lookupPermissionshipSchema,
+      missingContext: z.array(z.string()).optional(),
+      // Subjects excluded from a wildcard (*) subject
+      excludedSubjects: z.array(subjectReferenceSchema),
+    })
+  ),
+  ...pageOutput,
+};
+
+export const writeRelationshipOutput = {
+  operation: z.enum(['CREATE', 'TOUCH', 'DELETE']),
+  relationship: relationshipSchema,
+  // ZedToken of the write, for read-your-writes consistency
+  writtenAt: z.string().optional(),
+};
@@ -0,0 +1,183 @@
+import fetch, { FetchError } from 'node-fetch';
+import { SpiceDBError, grpcCode } from './errors.js';
+
+export type TransportName = 'http' | 'grpc';
+
+// How SpiceDBClient reaches SpiceDB. Calls are named by their HTTP gateway path
+// (for example /v1/permissions/check), and requests and responses use the JSON
+// form of the v1 API messages whichever transport carries them.
+export interface SpiceDBTransport {
+  readonly name: TransportName;
+  // Where requests are sent, for display
+  readonly target: string;
+  readonly tls: boolean;
+
+  // Make a unary call and return its response. Failures are thrown as
+  // SpiceDBError; aborting the signal cancels the call.
+  request(path: string, body?: any, signal?: AbortSignal): Promise<any>;
+
+  // Make a streaming call, yielding each { result } message as it arrives. An
+  // error from SpiceDB is thrown as SpiceDBError; aborting the signal or
+  // returning early ends the call.
+  stream(path: string, body: any, signal: AbortSignal): AsyncGenerator<any>;
+}
+
+// Longest single streamed message accepted, so a response that never ends a
+// line can't grow without bound
+const maxMessageLength = 16 * 1024 * 1024;
+
+// Parse one NDJSON line of a streamed response. The gateway reports a failure
+// partway through a stream as an { error } message carrying the gRPC status.
+function streamMessage(line: string): any {
+  const message = JSON.parse(line);
+  if (message.error) {
+    throw new SpiceDBError(message.error);
+  }
+  return message;
+}
+
+// Read the transport from SPICEDB_TRANSPORT (or another variable), defaulting to HTTP
+export function parseTransportName(
+  value: string | undefined,
+  variable = 'SPICEDB_TRANSPORT'
+): TransportName {
+  if (!value || value === 'http') {
+    return 'http';
+  }
+  if (value === 'grpc') {
+    return 'grpc';
+  }
+  throw new Error(`Unsupported ${variable} "${value}" (expected http or grpc)`);
+}
+
+// Transport that calls the SpiceDB HTTP gateway (spicedb serve --http-enabled)
+export class HttpTransport implements SpiceDBTransport {
+  public readonly name = 'http';
+  public readonly target: string;
+  public readonly tls: boolean;
+
+  constructor(
+    endpoint: string,
+    private apiKey: string,
+    useTLS: boolean
+  ) {
+    // Ensure endpoint has protocol
+    this.target = endpoint.startsWith('http')
+      ? endpoint
+      : `${useTLS ? 'https' : 'http'}://${endpoint}`;
+    this.tls = this.target.startsWith('https://');
+  }
+
+  private requestHeaders(): Record<string, string> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      Accept: 'application/json, application/x-ndjson',
+    };
+
+    if (this.apiKey) {
+      headers['Authorization'] = `Bearer ${this.apiKey}`;
+    }
+
+    return headers;
+  }
+
+  // Connection failures mean SpiceDB couldn't be reached
+  private unreachable(error: unknown): unknown {
+    if (error instanceof FetchError) {
+      return new SpiceDBError({
+        code: grpcCode.UNAVAILABLE,
+        message: `could not reach ${this.target}: ${error.message}`,
+      });
+    }
+    return error;
+  }
+
+  async request(path: string, body?: any, signal?: AbortSignal) {
+    const url = `${this.target}${path}`;
+    const headers = this.requestHeaders();
+
+    try {
+      // console.error(`[request] path:${path} body:${body ? JSON.stringify(body) : 'none'}`);
+      const response = await fetch(url, {
+        method: 'POST',
+        headers,
+        body: body ? JSON.stringify(body) : undefined,
+        signal,
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw SpiceDBError.fromResponse(response.status, errorText);
+      }
+
+      if (response.status === 204) {
+        // No content
+        return null;
+      }
+
+      const responseText = await response.text();
+
+      // If response is empty, return null
+      if (!responseText.trim()) {
+        return null;
+      }
+
+      return JSON.parse(responseText);
+    } catch (error) {
+      console.error(`Error making request to ${path}:`, error);
+      throw this.unreachable(error);
+    }
+  }
+
+  // Yield each NDJSON message as it arrives instead of waiting for the response to complete
+  async *stream(
+    path: string,
+    body: any,
+    signal: AbortSignal
+  ): AsyncGenerator<any> {
+    try {
+      const response = await fetch(`${this.target}${path}`, {
+        method: 'POST',
+        headers: this.requestHeaders(),
+        body: JSON.stringify(body),
+        signal,
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw SpiceDBError.fromResponse(response.status, errorText);
+      }
+
+      if (!response.body) {
+        return;
+      }
+
+      const decoder = new TextDecoder();
+      let buffer = '';
+      for await (const chunk of response.body) {
+        buffer += decoder.decode(chunk as Buffer, { stream: true });
+
+        let newline;
+        while ((newline = buffer.indexOf('\n')) >= 0) {
+          const line = buffer.slice(0, newline).trim();
+          buffer = buffer.slice(newline + 1);
+          if (line) {
+            yield streamMessage(line);
+          }
+        }
+
+        if (buffer.length > maxMessageLength) {
+          throw new Error(
+            `SpiceDB streamed a message longer than ${maxMessageLength} characters`
+          );
+        }
+      }
+
+      if (buffer.trim()) {
+        yield streamMessage(buffer);
+      }
+    } catch (error) {
+      throw this.unreachable(error);
+    }
+  }
+}
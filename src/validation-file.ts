@@ -0,0 +1,103 @@
+// Parse SpiceDB validation files: the YAML read by zed validate and the
+// Playground, with a schema, relationships, assertions and expected relations
+import { LineCounter, Scalar, isScalar, parseDocument } from 'yaml';
+import { z } from 'zod';
+
+// Lists may be left empty in the file, which YAML reads as null
+const stringList = z
+  .array(z.string())
+  .nullish()
+  .transform((list) => list ?? []);
+
+const validationFileSchema = z.object({
+  schema: z.string().nullish(),
+  // zed can read these from separate files, which this server can't
+  schemaFile: z.string().optional(),
+  relationships: z.string().nullish(),
+  assertions: z
+    .object({
+      assertTrue: stringList,
+      assertCaveated: stringList,
+      assertFalse: stringList,
+    })
+    .nullish(),
+  validation: z.record(stringList).nullish(),
+});
+
+export interface ValidationAssertions {
+  // Relationship strings, optionally followed by `with {...context}`
+  assertTrue: string[];
+  assertCaveated: string[];
+  assertFalse: string[];
+}
+
+export interface ValidationFile {
+  schema: string;
+  // Newline-separated relationship strings
+  relationships: string;
+  // Line of the file the first relationship line is on
+  relationshipsLine: number;
+  assertions: ValidationAssertions;
+  // Expected subjects keyed by "resourceType:resourceId#permission", each in
+  // zed's "[subject] is <resource#relation>" syntax
+  validation: Record<string, string[]>;
+}
+
+export class ValidationFileError extends Error {
+  constructor(message: string) {
+    super(`Invalid validation file: ${message}`);
+    this.name = 'ValidationFileError';
+  }
+}
+
+// The line a string's content starts on. A block scalar (| or >) starts on the
+// line after its header; other scalars on the line they are on.
+function firstContentLine(node: unknown, lineCounter: LineCounter): number {
+  if (!isScalar(node) || !node.range) {
+    return 1;
+  }
+  const { line } = lineCounter.linePos(node.range[0]);
+  return node.type === Scalar.BLOCK_LITERAL || node.type === Scalar.BLOCK_FOLDED
+    ? line + 1
+    : line;
+}
+
+export function parseValidationFile(text: string): ValidationFile {
+  const lineCounter = new LineCounter();
+  const document = parseDocument(text, { lineCounter });
+  if (document.errors.length > 0) {
+    // YAML errors name the line and column
+    throw new ValidationFileError(document.errors[0].message);
+  }
+
+  const parsed = validationFileSchema.safeParse(document.toJS() ?? {});
+  if (!parsed.success) {
+    throw new ValidationFileError(
+      parsed.error.issues
+        .map((issue) => `${issue.path.join('.') || '(file)'}: ${issue.message}`)
+        .join('; ')
+    );
+  }
+
+  const file = parsed.data;
+  if (!file.schema && file.schemaFile) {
+    throw new ValidationFileError(
+      `schemaFile (${file.schemaFile}) can't be read here; put the schema inline under schema:`
+    );
+  }
+
+  return {
+    schema: file.schema ?? '',
+    relationships: file.relationships ?? '',
+    relationshipsLine: firstContentLine(
+      document.get('relationships', true),
+      lineCounter
+    ),
+    assertions: file.assertions ?? {
+      assertTrue: [],
+      assertCaveated: [],
+      assertFalse: [],
+    },
+    validation: file.validation ?? {},
+  };
+}
@@ -0,0 +1,202 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  WritePolicy,
+  WritePolicyError,
+  enforceBatchedWritePolicy,
+  enforceSchemaWritePolicy,
+} from './write-policy.js';
+
+const policy: WritePolicy = {
+  readOnly: false,
+  allowResourceTypes: [],
+  denyResourceTypes: ['organization'],
+  allowRelations: [],
+  denyRelations: [],
+  maxUpdatesPerCall: 1000,
+  maxImportPerCall: 5000,
+};
+
+const current = `definition user {}
+
+definition organization {
+  relation admin: user
+}
+
+definition document {
+  relation viewer: user
+}`;
+
+test('schema writes may change definitions that may be written', () => {
+  enforceSchemaWritePolicy(
+    policy,
+    current,
+    current.replace('relation viewer: user', 'relation viewer: user | user:*')
+  );
+});
+
+test('schema writes may not change denied definitions', () => {
+  assert.throws(
+    () =>
+      enforceSchemaWritePolicy(
+        policy,
+        current,
+        current.replace('relation admin: user', 'relation owner: user')
+      ),
+    WritePolicyError
+  );
+  assert.throws(
+    () =>
+      enforceSchemaWritePolicy(
+        policy,
+        current,
+        current.replace(/definition organization \{[^}]*\}/, '')
+      ),
+    WritePolicyError
+  );
+});
+
+test('schema writes may only add allowed definitions', () => {
+  const allowed = {
+    ...policy,
+    allowResourceTypes: ['document'],
+    denyResourceTypes: [],
+  };
+
+  enforceSchemaWritePolicy(
+    allowed,
+    current,
+    current.replace('relation viewer: user', 'relation editor: user')
+  );
+  assert.throws(
+    () =>
+      enforceSchemaWritePolicy(
+        allowed,
+        current,
+        `${current}\n\ndefinition folder {}`
+      ),
+    /resource type "folder" are not allowed/
+  );
+});
+
+test('schema writes may not touch denied relations', () => {
+  const relationRules = {
+    ...policy,
+    denyResourceTypes: [],
+    denyRelations: ['organization#admin'],
+  };
+
+  enforceSchemaWritePolicy(
+    relationRules,
+    current,
+    current.replace('relation viewer: user', 'relation editor: user')
+  );
+  assert.throws(
+    () =>
+      enforceSchemaWritePolicy(
+        relationRules,
+        current,
+        current.replace(
+          'relation admin: user',
+          'relation owner: user\n  relation viewer: user\n  permission admin = owner + viewer'
+        )
+      ),
+    WritePolicyError
+  );
+  assert.throws(
+    () =>
+      enforceSchemaWritePolicy(
+        relationRules,
+        current,
+        current.replace('relation admin: user', 'relation admin: user | user:*')
+      ),
+    /organization#admin are denied/
+  );
+  assert.throws(
+    () =>
+      enforceSchemaWritePolicy(
+        relationRules,
+        current,
+        current.replace('relation admin: user', '')
+      ),
+    /organization#admin are denied/
+  );
+});
+
+test('schema writes may only touch allowed relations', () => {
+  const relationRules = {
+    ...policy,
+    denyResourceTypes: [],
+    allowRelations: ['document#viewer'],
+  };
+
+  enforceSchemaWritePolicy(
+    relationRules,
+    current,
+    current.replace('relation viewer: user', 'relation viewer: user | user:*')
+  );
+  assert.throws(
+    () =>
+      enforceSchemaWritePolicy(
+        relationRules,
+        current,
+        current.replace(
+          'relation viewer: user',
+          'relation viewer: user\n  permission view = viewer'
+        )
+      ),
+    /document#view are not allowed/
+  );
+});
+
+test('schema writes may not change caveats used by denied definitions', () => {
+  const caveated = `caveat on_network(ip ipaddress) {
+  ip.in_cidr('10.0.0.0/8')
+}
+
+${current.replace('relation admin: user', 'relation admin: user with on_network')}`;
+  const loosened = caveated.replace("ip.in_cidr('10.0.0.0/8')", 'true');
+
+  assert.throws(
+    () => enforceSchemaWritePolicy(policy, caveated, loosened),
+    /resource type "organization" are denied/
+  );
+  assert.throws(
+    () =>
+      enforceSchemaWritePolicy(
+        {
+          ...policy,
+          denyResourceTypes: [],
+          denyRelations: ['organization#admin'],
+        },
+        caveated,
+        loosened
+      ),
+    /organization#admin are denied/
+  );
+  enforceSchemaWritePolicy(
+    { ...policy, denyResourceTypes: ['document'] },
+    caveated,
+    loosened
+  );
+});
+
+test('batched imports are capped in total as well as per batch', () => {
+  const targets = (count: number) =>
+    Array.from({ length: count }, () => ({
+      resourceType: 'document',
+      relation: 'viewer',
+    }));
+
+  enforceBatchedWritePolicy(policy, targets(5000), 1000);
+  assert.throws(
+    () => enforceBatchedWritePolicy(policy, targets(5001), 1000),
+    (error) =>
+      error instanceof WritePolicyError &&
+      /5001 relationships exceed the maximum of 5000/.test(error.message)
+  );
+  assert.throws(
+    () => enforceBatchedWritePolicy(policy, targets(10), 1001),
+    /batchSize 1001 exceeds the maximum of 1000/
+  );
+});
@@ -0,0 +1,286 @@
+// Policy restricting what the server may write to SpiceDB, configured at startup
+import { SchemaChange, schemaChanges } from './schema-diff.js';
+
+// Error raised when a write is rejected by the policy
+export class WritePolicyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WritePolicyError';
+  }
+}
+
+export interface WritePolicy {
+  // When set, write tools are not registered at all
+  readOnly: boolean;
+  // Resource types that may be written; empty allows every type
+  allowResourceTypes: string[];
+  denyResourceTypes: string[];
+  // Entries are either a relation name or resourceType#relation; empty allows every relation
+  allowRelations: string[];
+  denyRelations: string[];
+  maxUpdatesPerCall: number;
+  // Total relationships one batched import may write across all its batches
+  maxImportPerCall: number;
+}
+
+// A relationship about to be written, or the resource side of a deletion filter.
+// Fields left undefined in a filter match anything.
+export interface WriteTarget {
+  resourceType?: string;
+  relation?: string;
+}
+
+function parseList(value: string | undefined): string[] {
+  return (value || '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter((entry) => entry !== '');
+}
+
+// Load the write policy from the environment
+export function loadWritePolicy(): WritePolicy {
+  const maxUpdates = parseInt(
+    process.env.SPICEDB_MAX_UPDATES_PER_CALL || '',
+    10
+  );
+  const maxImport = parseInt(process.env.SPICEDB_MAX_IMPORT_PER_CALL || '', 10);
+
+  return {
+    readOnly: process.env.SPICEDB_READ_ONLY === 'true',
+    allowResourceTypes: parseList(
+      process.env.SPICEDB_WRITE_ALLOW_RESOURCE_TYPES
+    ),
+    denyResourceTypes: parseList(process.env.SPICEDB_WRITE_DENY_RESOURCE_TYPES),
+    allowRelations: parseList(process.env.SPICEDB_WRITE_ALLOW_RELATIONS),
+    denyRelations: parseList(process.env.SPICEDB_WRITE_DENY_RELATIONS),
+    maxUpdatesPerCall: maxUpdates > 0 ? maxUpdates : 1000,
+    maxImportPerCall: maxImport > 0 ? maxImport : 50000,
+  };
+}
+
+// Summarize the policy for the startup log
+export function describeWritePolicy(policy: WritePolicy): string {
+  if (policy.readOnly) {
+    return 'read-only (write tools disabled)';
+  }
+
+  const parts = [
+    `max ${policy.maxUpdatesPerCall} updates per call`,
+    `max ${policy.maxImportPerCall} imported per call`,
+  ];
+  if (policy.allowResourceTypes.length > 0) {
+    parts.push(`allowed types: ${policy.allowResourceTypes.join(', ')}`);
+  }
+  if (policy.denyResourceTypes.length > 0) {
+    parts.push(`denied types: ${policy.denyResourceTypes.join(', ')}`);
+  }
+  if (policy.allowRelations.length > 0) {
+    parts.push(`allowed relations: ${policy.allowRelations.join(', ')}`);
+  }
+  if (policy.denyRelations.length > 0) {
+    parts.push(`denied relations: ${policy.denyRelations.join(', ')}`);
+  }
+  return parts.join('; ');
+}
+
+// Split a relation entry into its optional resource type and relation
+function parseRelationEntry(entry: string): {
+  resourceType?: string;
+  relation: string;
+} {
+  const separator = entry.indexOf('#');
+  if (separator === -1) {
+    return { relation: entry };
+  }
+  return {
+    resourceType: entry.slice(0, separator),
+    relation: entry.slice(separator + 1),
+  };
+}
+
+function describeTarget(target: WriteTarget): string {
+  return `${target.resourceType ?? '*'}#${target.relation ?? '*'}`;
+}
+
+function restrictsResourceTypes(policy: WritePolicy): boolean {
+  return (
+    policy.allowResourceTypes.length > 0 || policy.denyResourceTypes.length > 0
+  );
+}
+
+function checkResourceType(policy: WritePolicy, resourceType: string) {
+  if (policy.denyResourceTypes.includes(resourceType)) {
+    throw new WritePolicyError(
+      `Writes to resource type "${resourceType}" are denied`
+    );
+  }
+  if (
+    policy.allowResourceTypes.length > 0 &&
+    !policy.allowResourceTypes.includes(resourceType)
+  ) {
+    throw new WritePolicyError(
+      `Writes to resource type "${resourceType}" are not allowed (allowed: ${policy.allowResourceTypes.join(', ')})`
+    );
+  }
+}
+
+function checkTarget(policy: WritePolicy, target: WriteTarget) {
+  const { resourceType, relation } = target;
+
+  if (resourceType === undefined) {
+    if (restrictsResourceTypes(policy)) {
+      throw new WritePolicyError(
+        'A resourceType is required because the server restricts which resource types may be written'
+      );
+    }
+  } else {
+    checkResourceType(policy, resourceType);
+  }
+
+  // A denied relation blocks any write that could touch it, so unspecified
+  // filter fields are treated as matching
+  const denied = policy.denyRelations.find((entry) => {
+    const rule = parseRelationEntry(entry);
+    return (
+      (rule.resourceType === undefined ||
+        resourceType === undefined ||
+        rule.resourceType === resourceType) &&
+      (relation === undefined || rule.relation === relation)
+    );
+  });
+  if (denied) {
+    throw new WritePolicyError(
+      `Writes to ${describeTarget(target)} are denied by the rule "${denied}"`
+    );
+  }
+
+  // An allowed relation must match exactly
+  if (policy.allowRelations.length > 0) {
+    const allowed = policy.allowRelations.some((entry) => {
+      const rule = parseRelationEntry(entry);
+      return (
+        relation !== undefined &&
+        rule.relation === relation &&
+        (rule.resourceType === undefined || rule.resourceType === resourceType)
+      );
+    });
+    if (!allowed) {
+      throw new WritePolicyError(
+        `Writes to ${describeTarget(target)} are not allowed (allowed relations: ${policy.allowRelations.join(', ')})`
+      );
+    }
+  }
+}
+
+// Enforce the policy for a set of relationship updates made in one call
+export function enforceWritePolicy(
+  policy: WritePolicy,
+  targets: WriteTarget[]
+) {
+  if (policy.readOnly) {
+    throw new WritePolicyError('The server is in read-only mode');
+  }
+
+  if (targets.length > policy.maxUpdatesPerCall) {
+    throw new WritePolicyError(
+      `${targets.length} updates exceed the maximum of ${policy.maxUpdatesPerCall} per call`
+    );
+  }
+
+  for (const target of targets) {
+    checkTarget(policy, target);
+  }
+}
+
+// Enforce the policy for updates written in several atomic batches. Each
+// batch is a separate write, so the per-call maximum caps the batch size,
+// and the import maximum caps the number of updates across all batches.
+export function enforceBatchedWritePolicy(
+  policy: WritePolicy,
+  targets: WriteTarget[],
+  batchSize: number
+) {
+  if (policy.readOnly) {
+    throw new WritePolicyError('The server is in read-only mode');
+  }
+
+  if (batchSize > policy.maxUpdatesPerCall) {
+    throw new WritePolicyError(
+      `batchSize ${batchSize} exceeds the maximum of ${policy.maxUpdatesPerCall} updates per write`
+    );
+  }
+
+  if (targets.length > policy.maxImportPerCall) {
+    throw new WritePolicyError(
+      `${targets.length} relationships exceed the maximum of ${policy.maxImportPerCall} imported per call`
+    );
+  }
+
+  for (const target of targets) {
+    checkTarget(policy, target);
+  }
+}
+
+// Enforce the policy for a filter-based deletion and return the deletion limit
+// to send, so a single call can never delete more than the per-call maximum
+export function enforceDeletePolicy(
+  policy: WritePolicy,
+  filter: WriteTarget,
+  requestedLimit?: number
+): number {
+  if (policy.readOnly) {
+    throw new WritePolicyError('The server is in read-only mode');
+  }
+
+  if (
+    requestedLimit !== undefined &&
+    requestedLimit > policy.maxUpdatesPerCall
+  ) {
+    throw new WritePolicyError(
+      `optionalLimit ${requestedLimit} exceeds the maximum of ${policy.maxUpdatesPerCall} deletions per call`
+    );
+  }
+
+  checkTarget(policy, filter);
+
+  return requestedLimit ?? policy.maxUpdatesPerCall;
+}
+
+// Enforce the policy for a schema write. Every definition the change adds,
+// removes or alters must be a resource type that may be written, and every
+// relation or permission it touches, directly or through a caveat, must be
+// one the relation rules allow writing.
+export function enforceSchemaWritePolicy(
+  policy: WritePolicy,
+  currentSchema: string,
+  newSchema: string
+) {
+  if (policy.readOnly) {
+    throw new WritePolicyError('The server is in read-only mode');
+  }
+  if (
+    !restrictsResourceTypes(policy) &&
+    policy.allowRelations.length === 0 &&
+    policy.denyRelations.length === 0
+  ) {
+    return;
+  }
+
+  let change: SchemaChange;
+  try {
+    change = schemaChanges(currentSchema, newSchema);
+  } catch (error) {
+    throw new WritePolicyError(
+      `The schema change can't be checked against the write policy: ${
+        error instanceof Error ? error.message : error
+      }`
+    );
+  }
+  for (const definition of change.definitions) {
+    checkResourceType(policy, definition);
+  }
+  for (const member of change.relations) {
+    const [resourceType, relation] = member.split('#');
+    checkTarget(policy, { resourceType, relation });
+  }
+}